@@ -1,124 +1,398 @@
 pragma solidity ^0.8.24;
 
-import { FHE, euint32, externalEuint32 } from "@fhevm/solidity/lib/FHE.sol";
+import { FHE, ebool, euint32, eaddress, externalEuint32 } from "@fhevm/solidity/lib/FHE.sol";
 import { ZamaEthereumConfig } from "@fhevm/solidity/config/ZamaConfig.sol";
+import { ReentrancyGuard } from "@openzeppelin/contracts/utils/ReentrancyGuard.sol";
+import { ERC721 } from "@openzeppelin/contracts/token/ERC721/ERC721.sol";
+import { Base64 } from "@openzeppelin/contracts/utils/Base64.sol";
+import { Strings } from "@openzeppelin/contracts/utils/Strings.sol";
 
-contract DomainBidAdapter is ZamaEthereumConfig {
+contract DomainBidAdapter is ZamaEthereumConfig, ReentrancyGuard, ERC721 {
+    using Strings for uint256;
+    using Strings for string;
+    
+    enum AuctionState {
+        Open,
+        Closed,
+        Revealed,
+        Settled,
+        Cancelled
+    }
+    
+    struct Auction {
+        address seller;
+        euint32 reservePrice;
+        uint256 biddingEnd;
+        uint256 revealEnd;
+        AuctionState state;
+        euint32 highestBid;
+        euint32 secondHighestBid;
+        eaddress highestBidder;
+        euint32 clearingPrice;
+        ebool encryptedReserveMet;
+        address winner;
+        uint32 winningPrice;
+        bool reserveChecked;
+        bool reserveMet;
+        uint256 revealedBidCount;
+    }
     
     struct Bid {
-        string domainName;              
         euint32 encryptedBidAmount;     
         uint256 deposit;                
-        uint256 expiration;             
         address bidder;                 
         uint256 bidTime;                
-        uint32 decryptedBidAmount;      
-        bool isVerified;                
+        bool isRefunded;               
     }
     
-    mapping(string => Bid) public domainBids;
+    uint256 public constant PRICE_UNIT = 0.001 ether;
+    uint256 public constant PROTOCOL_FEE_BPS = 250;
+    uint256 public constant MAX_BIDDING_DURATION = 30 days;
+    uint256 public constant MIN_REVEAL_DURATION = 1 days;
+    uint256 public constant MAX_REVEAL_DURATION = 7 days;
+    
+    address public immutable treasury;
+    
+    mapping(string => Auction) private auctions;
+    mapping(string => uint256) public auctionRound;
+    mapping(string => mapping(uint256 => Bid[])) private roundBids;
+    mapping(string => mapping(uint256 => mapping(address => uint256))) private bidIndexPlusOne;
     mapping(string => bool) public domainRegistered;
+    mapping(address => uint256) public pendingWithdrawals;
+    mapping(uint256 => string) private tokenDomains;
+    mapping(uint256 => uint256) public registeredAt;
     
     string[] public domainNames;
     
-    event BidPlaced(string indexed domainName, address indexed bidder);
-    event BidVerified(string indexed domainName, uint32 decryptedBidAmount);
-    event DomainRegistered(string indexed domainName);
+    event AuctionCreated(string indexed domainName, address indexed seller, uint256 biddingEnd, uint256 revealEnd);
+    event BidPlaced(string indexed domainName, address indexed bidder, uint256 bidIndex);
+    event AuctionClosed(string indexed domainName, uint256 bidCount);
+    event BidsRevealed(string indexed domainName, uint256 revealedBidCount);
+    event WinnerVerified(string indexed domainName, address indexed winner, uint32 winningPrice);
+    event AuctionSettled(string indexed domainName, address indexed winner, uint32 winningPrice);
+    event AuctionCancelled(string indexed domainName);
+    event ReserveNotMet(string indexed domainName);
+    event FundsCredited(string indexed domainName, address indexed account, uint256 amount);
+    event FundsWithdrawn(address indexed account, uint256 amount);
+    event DomainRegistered(string indexed domainName, uint256 indexed tokenId, address indexed owner);
     
-    constructor() ZamaEthereumConfig() {
+    modifier inState(string calldata domainName, AuctionState state) {
+        require(auctions[domainName].seller != address(0), "Auction does not exist");
+        require(auctions[domainName].state == state, "Invalid auction state");
+        _;
     }
     
-    function placeBid(
+    constructor() ZamaEthereumConfig() ERC721("DomainBid Domain", "DOMAIN") {
+        treasury = msg.sender;
+    }
+    
+    function createAuction(
         string calldata domainName,
-        externalEuint32 encryptedBidAmount,
+        externalEuint32 encryptedReservePrice,
         bytes calldata inputProof,
-        uint256 expiration
-    ) external payable {
+        uint256 biddingEnd,
+        uint256 revealEnd
+    ) external {
+        require(bytes(domainName).length > 0, "Empty domain name");
         require(!domainRegistered[domainName], "Domain already registered");
-        require(bytes(domainBids[domainName].domainName).length == 0, "Bid already exists");
+        require(biddingEnd > block.timestamp, "Invalid bidding end");
+        require(revealEnd > biddingEnd, "Invalid reveal end");
+        require(biddingEnd - block.timestamp <= MAX_BIDDING_DURATION, "Bidding period too long");
+        require(revealEnd - biddingEnd >= MIN_REVEAL_DURATION, "Reveal period too short");
+        require(revealEnd - biddingEnd <= MAX_REVEAL_DURATION, "Reveal period too long");
+        
+        euint32 reservePrice = FHE.fromExternal(encryptedReservePrice, inputProof);
+        require(FHE.isInitialized(reservePrice), "Invalid encrypted input");
+        
+        if (auctions[domainName].seller == address(0)) {
+            domainNames.push(domainName);
+        } else {
+            require(auctions[domainName].state == AuctionState.Cancelled, "Auction already exists");
+            auctionRound[domainName]++;
+            delete auctions[domainName];
+        }
+        
+        Auction storage auction = auctions[domainName];
+        auction.seller = msg.sender;
+        auction.reservePrice = reservePrice;
+        auction.biddingEnd = biddingEnd;
+        auction.revealEnd = revealEnd;
+        auction.state = AuctionState.Open;
+        auction.highestBid = FHE.asEuint32(0);
+        auction.secondHighestBid = FHE.asEuint32(0);
+        auction.highestBidder = FHE.asEaddress(address(0));
+        
+        FHE.allowThis(auction.reservePrice);
+        FHE.allow(auction.reservePrice, msg.sender);
+        FHE.allowThis(auction.highestBid);
+        FHE.allowThis(auction.secondHighestBid);
+        FHE.allowThis(auction.highestBidder);
+        
+        emit AuctionCreated(domainName, msg.sender, biddingEnd, revealEnd);
+    }
+    
+    function placeBid(
+        string calldata domainName,
+        externalEuint32 encryptedBidAmount,
+        bytes calldata inputProof
+    ) external payable inState(domainName, AuctionState.Open) {
+        Auction storage auction = auctions[domainName];
+        require(block.timestamp < auction.biddingEnd, "Bidding closed");
+        require(msg.sender != auction.seller, "Seller cannot bid");
+        require(_bidIndexes(domainName)[msg.sender] == 0, "Bid already exists");
         require(msg.value > 0, "Deposit required");
-        require(expiration > block.timestamp, "Invalid expiration");
         
-        require(FHE.isInitialized(FHE.fromExternal(encryptedBidAmount, inputProof)), "Invalid encrypted input");
+        euint32 amount = FHE.fromExternal(encryptedBidAmount, inputProof);
+        require(FHE.isInitialized(amount), "Invalid encrypted input");
+        
+        uint256 depositUnits = msg.value / PRICE_UNIT;
+        uint32 maxAffordable = depositUnits > type(uint32).max ? type(uint32).max : uint32(depositUnits);
+        ebool isSolvent = FHE.le(amount, maxAffordable);
+        amount = FHE.select(isSolvent, amount, FHE.asEuint32(0));
+        
+        ebool isHigher = FHE.gt(amount, auction.highestBid);
+        ebool beatsSecond = FHE.gt(amount, auction.secondHighestBid);
+        auction.secondHighestBid = FHE.select(
+            isHigher,
+            auction.highestBid,
+            FHE.select(beatsSecond, amount, auction.secondHighestBid)
+        );
+        auction.highestBid = FHE.select(isHigher, amount, auction.highestBid);
+        auction.highestBidder = FHE.select(isHigher, FHE.asEaddress(msg.sender), auction.highestBidder);
+        
+        FHE.allowThis(auction.highestBid);
+        FHE.allowThis(auction.secondHighestBid);
+        FHE.allowThis(auction.highestBidder);
         
-        domainBids[domainName] = Bid({
-            domainName: domainName,
-            encryptedBidAmount: FHE.fromExternal(encryptedBidAmount, inputProof),
+        Bid[] storage bids = _bids(domainName);
+        bids.push(Bid({
+            encryptedBidAmount: amount,
             deposit: msg.value,
-            expiration: expiration,
             bidder: msg.sender,
             bidTime: block.timestamp,
-            decryptedBidAmount: 0,
-            isVerified: false
-        });
+            isRefunded: false
+        }));
+        _bidIndexes(domainName)[msg.sender] = bids.length;
         
-        FHE.allowThis(domainBids[domainName].encryptedBidAmount);
-        FHE.makePubliclyDecryptable(domainBids[domainName].encryptedBidAmount);
+        FHE.allowThis(amount);
+        FHE.allow(amount, msg.sender);
         
-        domainNames.push(domainName);
+        emit BidPlaced(domainName, msg.sender, bids.length - 1);
+    }
+    
+    function closeAuction(string calldata domainName) external inState(domainName, AuctionState.Open) {
+        Auction storage auction = auctions[domainName];
+        require(block.timestamp >= auction.biddingEnd, "Bidding still open");
         
-        emit BidPlaced(domainName, msg.sender);
+        Bid[] storage bids = _bids(domainName);
+        if (bids.length == 0) {
+            auction.state = AuctionState.Cancelled;
+            emit AuctionCancelled(domainName);
+            return;
+        }
+        
+        auction.state = AuctionState.Closed;
+        
+        ebool reserveMet = FHE.ge(auction.highestBid, auction.reservePrice);
+        euint32 clearingPrice = FHE.select(
+            FHE.gt(auction.secondHighestBid, auction.reservePrice),
+            auction.secondHighestBid,
+            auction.reservePrice
+        );
+        auction.encryptedReserveMet = reserveMet;
+        auction.clearingPrice = FHE.select(reserveMet, clearingPrice, FHE.asEuint32(0));
+        auction.highestBidder = FHE.select(reserveMet, auction.highestBidder, FHE.asEaddress(address(0)));
+        
+        FHE.allowThis(auction.encryptedReserveMet);
+        FHE.allowThis(auction.clearingPrice);
+        FHE.allowThis(auction.highestBidder);
+        FHE.makePubliclyDecryptable(auction.highestBidder);
+        FHE.makePubliclyDecryptable(auction.clearingPrice);
+        FHE.makePubliclyDecryptable(auction.encryptedReserveMet);
+        
+        emit AuctionClosed(domainName, bids.length);
     }
     
-    function verifyBid(
+    function revealBids(string calldata domainName, uint256 maxCount) external {
+        Auction storage auction = auctions[domainName];
+        require(auction.seller != address(0), "Auction does not exist");
+        require(auction.state != AuctionState.Open, "Auction still open");
+        
+        Bid[] storage bids = _bids(domainName);
+        uint256 start = auction.revealedBidCount;
+        require(start < bids.length, "All bids revealed");
+        uint256 end = maxCount < bids.length - start ? start + maxCount : bids.length;
+        
+        for (uint256 i = start; i < end; i++) {
+            FHE.makePubliclyDecryptable(bids[i].encryptedBidAmount);
+        }
+        auction.revealedBidCount = end;
+        
+        emit BidsRevealed(domainName, end);
+    }
+    
+    function verifyWinner(
         string calldata domainName, 
-        bytes memory abiEncodedClearValue,
+        bytes memory abiEncodedClearValues,
         bytes memory decryptionProof
-    ) external {
-        require(bytes(domainBids[domainName].domainName).length > 0, "Bid does not exist");
-        require(!domainBids[domainName].isVerified, "Bid already verified");
-        require(block.timestamp < domainBids[domainName].expiration, "Bid expired");
+    ) external inState(domainName, AuctionState.Closed) {
+        Auction storage auction = auctions[domainName];
+        require(block.timestamp < auction.revealEnd, "Reveal period over");
         
-        bytes32[] memory cts = new bytes32[](1);
-        cts[0] = FHE.toBytes32(domainBids[domainName].encryptedBidAmount);
+        bytes32[] memory cts = new bytes32[](3);
+        cts[0] = FHE.toBytes32(auction.highestBidder);
+        cts[1] = FHE.toBytes32(auction.clearingPrice);
+        cts[2] = FHE.toBytes32(auction.encryptedReserveMet);
         
-        FHE.checkSignatures(cts, abiEncodedClearValue, decryptionProof);
+        FHE.checkSignatures(cts, abiEncodedClearValues, decryptionProof);
         
-        uint32 decodedValue = abi.decode(abiEncodedClearValue, (uint32));
+        (address winner, uint32 price, bool reserveMet) = abi.decode(abiEncodedClearValues, (address, uint32, bool));
+        
+        auction.reserveChecked = true;
+        auction.reserveMet = reserveMet;
+        
+        if (!reserveMet || winner == address(0)) {
+            auction.state = AuctionState.Cancelled;
+            if (!reserveMet) emit ReserveNotMet(domainName);
+            emit AuctionCancelled(domainName);
+            return;
+        }
         
-        domainBids[domainName].decryptedBidAmount = decodedValue;
-        domainBids[domainName].isVerified = true;
+        auction.winner = winner;
+        auction.winningPrice = price;
+        auction.state = AuctionState.Revealed;
         
-        emit BidVerified(domainName, decodedValue);
+        emit WinnerVerified(domainName, winner, auction.winningPrice);
     }
     
-    function registerDomain(string calldata domainName) external {
-        require(bytes(domainBids[domainName].domainName).length > 0, "Bid does not exist");
-        require(domainBids[domainName].isVerified, "Bid not verified");
-        require(block.timestamp < domainBids[domainName].expiration, "Bid expired");
+    function settleAuction(string calldata domainName) external inState(domainName, AuctionState.Revealed) {
+        Auction storage auction = auctions[domainName];
+        Bid storage winningBid = _bids(domainName)[_bidIndexes(domainName)[auction.winner] - 1];
         
+        uint256 price = uint256(auction.winningPrice) * PRICE_UNIT;
+        require(winningBid.deposit >= price, "Deposit below price");
+        uint256 fee = (price * PROTOCOL_FEE_BPS) / 10_000;
+        
+        auction.state = AuctionState.Settled;
         domainRegistered[domainName] = true;
-        payable(domainBids[domainName].bidder).transfer(domainBids[domainName].deposit);
+        winningBid.isRefunded = true;
+        
+        _credit(domainName, auction.seller, price - fee);
+        _credit(domainName, treasury, fee);
+        _credit(domainName, auction.winner, winningBid.deposit - price);
+        
+        uint256 tokenId = domainTokenId(domainName);
+        tokenDomains[tokenId] = domainName;
+        registeredAt[tokenId] = block.timestamp;
+        _mint(auction.winner, tokenId);
         
-        emit DomainRegistered(domainName);
+        emit AuctionSettled(domainName, auction.winner, auction.winningPrice);
+        emit DomainRegistered(domainName, tokenId, auction.winner);
     }
     
-    function getEncryptedBid(string calldata domainName) external view returns (euint32) {
-        require(bytes(domainBids[domainName].domainName).length > 0, "Bid does not exist");
-        return domainBids[domainName].encryptedBidAmount;
+    function cancelAuction(string calldata domainName) external {
+        Auction storage auction = auctions[domainName];
+        require(auction.seller != address(0), "Auction does not exist");
+        
+        if (auction.state == AuctionState.Open) {
+            require(msg.sender == auction.seller, "Not the seller");
+            require(_bids(domainName).length == 0, "Auction has bids");
+        } else {
+            require(auction.state == AuctionState.Closed, "Invalid auction state");
+            require(block.timestamp >= auction.revealEnd, "Reveal period not over");
+        }
+        
+        auction.state = AuctionState.Cancelled;
+        
+        emit AuctionCancelled(domainName);
+    }
+    
+    function getAuction(string calldata domainName) external view returns (
+        address seller,
+        uint256 biddingEnd,
+        uint256 revealEnd,
+        AuctionState state,
+        uint256 bidCount,
+        address winner,
+        uint32 winningPrice,
+        bool reserveChecked,
+        bool reserveMet,
+        uint256 revealedBidCount
+    ) {
+        Auction storage auction = auctions[domainName];
+        require(auction.seller != address(0), "Auction does not exist");
+        
+        return (
+            auction.seller,
+            auction.biddingEnd,
+            auction.revealEnd,
+            auction.state,
+            _bids(domainName).length,
+            auction.winner,
+            auction.winningPrice,
+            auction.reserveChecked,
+            auction.reserveMet,
+            auction.revealedBidCount
+        );
     }
     
-    function getBidDetails(string calldata domainName) external view returns (
+    function getEncryptedReserve(string calldata domainName) external view returns (euint32) {
+        require(auctions[domainName].seller != address(0), "Auction does not exist");
+        return auctions[domainName].reservePrice;
+    }
+    
+    function getEncryptedBid(string calldata domainName, uint256 bidIndex) external view returns (euint32) {
+        return _getBid(domainName, bidIndex).encryptedBidAmount;
+    }
+    
+    function getEncryptedWinner(string calldata domainName) external view returns (
+        eaddress winner,
+        euint32 price,
+        ebool reserveMet
+    ) {
+        Auction storage auction = auctions[domainName];
+        require(auction.seller != address(0), "Auction does not exist");
+        require(auction.state != AuctionState.Open, "Auction still open");
+        return (auction.highestBidder, auction.clearingPrice, auction.encryptedReserveMet);
+    }
+    
+    function getBidCount(string calldata domainName) external view returns (uint256) {
+        return _bids(domainName).length;
+    }
+    
+    function getBidIndex(string calldata domainName, address bidder) external view returns (uint256) {
+        require(_bidIndexes(domainName)[bidder] > 0, "Bid does not exist");
+        return _bidIndexes(domainName)[bidder] - 1;
+    }
+    
+    function getBidDetails(string calldata domainName, uint256 bidIndex) external view returns (
         uint256 deposit,
-        uint256 expiration,
         address bidder,
         uint256 bidTime,
-        bool isVerified,
-        uint32 decryptedBidAmount
+        bool isRefunded
     ) {
-        require(bytes(domainBids[domainName].domainName).length > 0, "Bid does not exist");
-        Bid storage bid = domainBids[domainName];
+        Bid storage bid = _getBid(domainName, bidIndex);
         
         return (
             bid.deposit,
-            bid.expiration,
             bid.bidder,
             bid.bidTime,
-            bid.isVerified,
-            bid.decryptedBidAmount
+            bid.isRefunded
         );
     }
     
+    function getRoundBid(string calldata domainName, uint256 round, address bidder) external view returns (
+        bool exists,
+        uint256 deposit,
+        bool isRefunded
+    ) {
+        uint256 indexPlusOne = bidIndexPlusOne[domainName][round][bidder];
+        if (indexPlusOne == 0) return (false, 0, false);
+        
+        Bid storage bid = roundBids[domainName][round][indexPlusOne - 1];
+        return (true, bid.deposit, bid.isRefunded);
+    }
+    
     function getAllDomainNames() external view returns (string[] memory) {
         return domainNames;
     }
@@ -127,23 +401,82 @@ contract DomainBidAdapter is ZamaEthereumConfig {
         return domainRegistered[domainName];
     }
     
-    function withdrawExpiredBid(string calldata domainName) external {
-        require(bytes(domainBids[domainName].domainName).length > 0, "Bid does not exist");
-        require(block.timestamp >= domainBids[domainName].expiration, "Bid not expired");
-        require(msg.sender == domainBids[domainName].bidder, "Not the bidder");
-        
-        payable(msg.sender).transfer(domainBids[domainName].deposit);
+    function domainTokenId(string calldata domainName) public pure returns (uint256) {
+        return uint256(keccak256(bytes(domainName)));
+    }
+    
+    function getDomainToken(string calldata domainName) external view returns (
+        uint256 tokenId,
+        address owner,
+        uint256 registrationDate
+    ) {
+        tokenId = domainTokenId(domainName);
+        return (tokenId, ownerOf(tokenId), registeredAt[tokenId]);
+    }
+    
+    function tokenURI(uint256 tokenId) public view override returns (string memory) {
+        _requireOwned(tokenId);
         
-        delete domainBids[domainName];
+        string memory name = tokenDomains[tokenId].escapeJSON();
+        string memory registrationDate = registeredAt[tokenId].toString();
+        string memory json = string.concat(
+            '{"name":"', name,
+            '","description":"Domain won in a sealed-bid FHE auction",',
+            '"attributes":[{"trait_type":"Domain","value":"', name,
+            '"},{"display_type":"date","trait_type":"Registration Date","value":', registrationDate, '}]}'
+        );
         
-        for (uint i = 0; i < domainNames.length; i++) {
-            if (keccak256(bytes(domainNames[i])) == keccak256(bytes(domainName))) {
-                domainNames[i] = domainNames[domainNames.length - 1];
-                domainNames.pop();
-                break;
-            }
+        return string.concat("data:application/json;base64,", Base64.encode(bytes(json)));
+    }
+    
+    function claimRefund(string calldata domainName, uint256 round) external {
+        require(round <= auctionRound[domainName], "Round does not exist");
+        if (round == auctionRound[domainName]) {
+            Auction storage auction = auctions[domainName];
+            require(
+                auction.state == AuctionState.Cancelled ||
+                    (auction.state == AuctionState.Settled && msg.sender != auction.winner),
+                "Refund not available"
+            );
         }
+        
+        uint256 indexPlusOne = bidIndexPlusOne[domainName][round][msg.sender];
+        require(indexPlusOne > 0, "Bid does not exist");
+        
+        Bid storage bid = roundBids[domainName][round][indexPlusOne - 1];
+        require(!bid.isRefunded, "Already refunded");
+        
+        bid.isRefunded = true;
+        _credit(domainName, msg.sender, bid.deposit);
+    }
+    
+    function withdrawFunds() external nonReentrant {
+        uint256 amount = pendingWithdrawals[msg.sender];
+        require(amount > 0, "Nothing to withdraw");
+        
+        pendingWithdrawals[msg.sender] = 0;
+        (bool success, ) = payable(msg.sender).call{value: amount}("");
+        require(success, "Transfer failed");
+        
+        emit FundsWithdrawn(msg.sender, amount);
+    }
+    
+    function _credit(string calldata domainName, address account, uint256 amount) private {
+        if (amount == 0) return;
+        pendingWithdrawals[account] += amount;
+        emit FundsCredited(domainName, account, amount);
+    }
+    
+    function _bids(string calldata domainName) private view returns (Bid[] storage) {
+        return roundBids[domainName][auctionRound[domainName]];
+    }
+    
+    function _bidIndexes(string calldata domainName) private view returns (mapping(address => uint256) storage) {
+        return bidIndexPlusOne[domainName][auctionRound[domainName]];
+    }
+    
+    function _getBid(string calldata domainName, uint256 bidIndex) private view returns (Bid storage) {
+        require(bidIndex < _bids(domainName).length, "Bid does not exist");
+        return _bids(domainName)[bidIndex];
     }
 }
-
-
@@ -326,7 +326,8 @@ async function main() {
   }
 
   const DEFAULT_RPC = "https://sepolia.infura.io/v3/96406da962744120afbe0cf64c8bd7b3";
-  const rpc = DEFAULT_RPC;
+  // Set RPC_URL=http://127.0.0.1:8545 to deploy to a local `npx hardhat node`
+  const rpc = process.env.RPC_URL || DEFAULT_RPC;
 
   const provider = new JsonRpcProvider(rpc);
   const wallet = new Wallet(privateKey, provider);
@@ -334,12 +335,12 @@ async function main() {
   console.log("Deployer account:", wallet.address);
 
   try {
-    const UniversalFHEAdapterFactory = await hardhatEthers.getContractFactory("UniversalFHEAdapter", wallet);
-    const factory = await UniversalFHEAdapterFactory.deploy();
+    const DomainBidAdapterFactory = await hardhatEthers.getContractFactory("DomainBidAdapter", wallet);
+    const factory = await DomainBidAdapterFactory.deploy();
     await factory.waitForDeployment();
 
     const deployedAddress = (factory as any).target || (factory as any).address;
-    console.log("UniversalFHEAdapter contract deployed at:", deployedAddress);
+    console.log("DomainBidAdapter contract deployed at:", deployedAddress);
 
     if (fs.existsSync(walletsPath)) {
       const walletsContent = fs.readFileSync(walletsPath, "utf-8");
@@ -375,16 +376,16 @@ async function main() {
           "..",
           "artifacts",
           "contracts",
-          "UniversalFHEAdapter.sol",
-          "UniversalFHEAdapter.json"
+          "DomainBid_Z.sol",
+          "DomainBidAdapter.json"
         );
         const targetAbiPath = path.join(frontendConfigDir, "abi");
         if (!fs.existsSync(targetAbiPath)) fs.mkdirSync(targetAbiPath, { recursive: true });
-        fs.copyFileSync(artifactPath, path.join(targetAbiPath, "UniversalFHEAdapter.json"));
-        console.log("Copied ABI to frontend/web/src/abi/UniversalFHEAdapter.json");
+        fs.copyFileSync(artifactPath, path.join(targetAbiPath, "DomainBidAdapter.json"));
+        console.log("Copied ABI to frontend/web/src/abi/DomainBidAdapter.json");
       } catch (e) {
         console.warn(
-          "Failed to copy ABI automatically. Please copy artifacts/.../UniversalFHEAdapter.json manually to frontend/web/src/abi/UniversalFHEAdapter.json",
+          "Failed to copy ABI automatically. Please copy artifacts/.../DomainBidAdapter.json manually to frontend/web/src/abi/DomainBidAdapter.json",
           e
         );
       }
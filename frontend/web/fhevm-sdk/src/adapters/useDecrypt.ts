@@ -1,49 +1,152 @@
 /**
  * Wagmi-like hook for decryption operations - FHE v0.9
+ * Every call takes an optional `{ signal }` to abort the relayer request
+ * With a worker-hosted instance, `progress` is 'decrypting' while the worker is busy
+ * `checkAccess` reads the ACL first, so the UI can disable decryption before anything is signed
  */
 
 import { useState, useCallback } from 'react';
-import { publicDecryptV09 } from '../core/index.js';
+import { batchDecryptHandles, decryptValue, getDecryptAccess, publicDecryptV09, toFhevmError, verifyDecryptionProof } from '../core/index.js';
+import type { DecryptAccess, FhevmErrorCode, HandleContractPair, RelayerCallOptions } from '../core/index.js';
+import { useWorkerProgress } from './useWorkerProgress.js';
 
 export function useDecrypt() {
   const [isDecrypting, setIsDecrypting] = useState(false);
   const [error, setError] = useState<string>('');
+  const [errorCode, setErrorCode] = useState<FhevmErrorCode | null>(null);
+  const { progress, track } = useWorkerProgress(['decrypting']);
+
+  /**
+   * Which decryption paths the ACL allows for `handle`; pass no `userAddress` before a wallet is connected.
+   * Does not touch `error`, since a closed path is an answer rather than a failure.
+   */
+  const checkAccess = useCallback(async (
+    handle: string,
+    contractAddress: string,
+    userAddress?: string | null
+  ): Promise<DecryptAccess> => {
+    try {
+      return await getDecryptAccess(handle, userAddress ?? null, contractAddress);
+    } catch (err) {
+      throw toFhevmError(err);
+    }
+  }, []);
+
+  /**
+   * Public decryption - only works for handles the contract has made publicly decryptable
+   */
+  const decrypt = useCallback(async (handles: string[], options: RelayerCallOptions = {}) => {
+    setIsDecrypting(true);
+    setError('');
+    setErrorCode(null);
+
+    try {
+      const decryptionResult = await track(() => publicDecryptV09(handles, options));
+      return decryptionResult.clearValues;
+    } catch (err) {
+      const fhevmError = toFhevmError(err);
+      setError(fhevmError.message);
+      setErrorCode(fhevmError.code);
+      throw fhevmError;
+    } finally {
+      setIsDecrypting(false);
+    }
+  }, [track]);
+
+  /**
+   * EIP-712 user decryption - only works for handles the signer was granted ACL access to
+   */
+  const decryptForUser = useCallback(async (
+    handle: string,
+    contractAddress: string,
+    signer: any,
+    options: RelayerCallOptions = {}
+  ) => {
+    setIsDecrypting(true);
+    setError('');
+    setErrorCode(null);
+
+    try {
+      return await track(() => decryptValue(handle, contractAddress, signer, options));
+    } catch (err) {
+      const fhevmError = toFhevmError(err);
+      setError(fhevmError.message);
+      setErrorCode(fhevmError.code);
+      throw fhevmError;
+    } finally {
+      setIsDecrypting(false);
+    }
+  }, [track]);
+
+  /**
+   * EIP-712 user decryption of handles from several contracts, one signature per `MAX_SESSION_CONTRACTS` contracts;
+   * results are keyed by `decryptionResultKey`
+   */
+  const decryptBatchForUser = useCallback(async (
+    handleContractPairs: HandleContractPair[],
+    signer: any,
+    options: RelayerCallOptions = {}
+  ) => {
+    setIsDecrypting(true);
+    setError('');
+    setErrorCode(null);
+
+    try {
+      return await track(() => batchDecryptHandles(handleContractPairs, signer, options));
+    } catch (err) {
+      const fhevmError = toFhevmError(err);
+      setError(fhevmError.message);
+      setErrorCode(fhevmError.code);
+      throw fhevmError;
+    } finally {
+      setIsDecrypting(false);
+    }
+  }, [track]);
 
   const verifyDecryption = useCallback(async (
-    handles: string[], 
-    contractAddress: string, 
-    verifyFunction: (abiEncodedClearValues: string, decryptionProof: string) => Promise<any>
+    handles: string[],
+    verifyFunction: (abiEncodedClearValues: string, decryptionProof: string) => Promise<any>,
+    options: RelayerCallOptions = {}
   ) => {
     setIsDecrypting(true);
     setError('');
-    
+    setErrorCode(null);
+
     try {
-      const decryptionResult = await publicDecryptV09(handles);
-      
+      const decryptionResult = await track(() => publicDecryptV09(handles, options));
+      // A proof the KMSVerifier rejects would only revert the transaction after paying for gas
+      await verifyDecryptionProof(handles, decryptionResult.abiEncodedClearValues, decryptionResult.decryptionProof);
+
       const tx = await verifyFunction(
         decryptionResult.abiEncodedClearValues,
         decryptionResult.decryptionProof
       );
-      
+
       const receipt = await tx.wait();
-      
+
       return {
         decryptionResult,
         transactionReceipt: receipt
       };
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Decryption verification failed');
-      throw err;
+      const fhevmError = toFhevmError(err);
+      setError(fhevmError.message);
+      setErrorCode(fhevmError.code);
+      throw fhevmError;
     } finally {
       setIsDecrypting(false);
     }
-  }, []);
+  }, [track]);
 
   return {
+    decrypt,
+    decryptForUser,
+    decryptBatchForUser,
     verifyDecryption,
+    checkAccess,
     isDecrypting,
+    progress,
     error,
+    errorCode,
   };
 }
-
-
@@ -1,33 +1,75 @@
 /**
  * Wagmi-like hook for encryption operations
+ * Every call takes an optional `{ signal }` to abort the relayer request
+ * With a worker-hosted instance, `progress` is 'encrypting' while the worker is busy
  */
 
 import { useState, useCallback } from 'react';
-import { createEncryptedInput } from '../core/index.js';
+import { createEncryptedInput, createEncryptedInputs, toFhevmError } from '../core/index.js';
+import type { EncryptedValue, FhevmErrorCode, RelayerCallOptions } from '../core/index.js';
+import { useWorkerProgress } from './useWorkerProgress.js';
 
 export function useEncrypt() {
   const [isEncrypting, setIsEncrypting] = useState(false);
   const [error, setError] = useState<string>('');
+  const [errorCode, setErrorCode] = useState<FhevmErrorCode | null>(null);
+  const { progress, track } = useWorkerProgress(['encrypting']);
 
-  const encrypt = useCallback(async (contractAddress: string, userAddress: string, value: number) => {
+  const encrypt = useCallback(async (
+    contractAddress: string,
+    userAddress: string,
+    value: number,
+    options: RelayerCallOptions = {}
+  ) => {
     setIsEncrypting(true);
     setError('');
+    setErrorCode(null);
     
     try {
-      const result = await createEncryptedInput(contractAddress, userAddress, value);
+      const result = await track(() => createEncryptedInput(contractAddress, userAddress, value, options));
       return result;
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Encryption failed');
-      throw err;
+      const fhevmError = toFhevmError(err);
+      setError(fhevmError.message);
+      setErrorCode(fhevmError.code);
+      throw fhevmError;
     } finally {
       setIsEncrypting(false);
     }
-  }, []);
+  }, [track]);
+
+  /**
+   * Encrypt several typed values into one input (one handle each, shared proof)
+   */
+  const encryptValues = useCallback(async (
+    contractAddress: string,
+    userAddress: string,
+    values: EncryptedValue[],
+    options: RelayerCallOptions = {}
+  ) => {
+    setIsEncrypting(true);
+    setError('');
+    setErrorCode(null);
+    
+    try {
+      return await track(() => createEncryptedInputs(contractAddress, userAddress, values, options));
+    } catch (err) {
+      const fhevmError = toFhevmError(err);
+      setError(fhevmError.message);
+      setErrorCode(fhevmError.code);
+      throw fhevmError;
+    } finally {
+      setIsEncrypting(false);
+    }
+  }, [track]);
 
   return {
     encrypt,
+    encryptValues,
     isEncrypting,
+    progress,
     error,
+    errorCode,
   };
 }
 
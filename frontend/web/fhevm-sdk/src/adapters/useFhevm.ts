@@ -2,37 +2,71 @@
  * Wagmi-like hook for FHEVM instance
  */
 
-import { useState, useCallback } from 'react';
-import { initializeFheInstance } from '../core/index.js';
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { initializeFheInstance, disposeInstance, getFheInstanceChainId, getLogger, toFhevmError } from '../core/index.js';
+import type { FhevmErrorCode, FhevmInstance, FhevmInstanceOptions } from '../core/index.js';
+import { useWorkerProgress } from './useWorkerProgress.js';
 
-export function useFhevm() {
-  const [instance, setInstance] = useState<any>(null);
+const logger = getLogger('useFhevm');
+
+/**
+ * Pass the wallet's current `chainId` (e.g. from wagmi `useAccount`) to follow chain switches:
+ * the old chain's instance is disposed and one for the new chain is created.
+ * With `worker: true`, `progress` reports the worker's SDK download and WASM setup while loading.
+ */
+export function useFhevm(options: FhevmInstanceOptions & { chainId?: number } = {}) {
+  const { chainId, mock, rpcUrl, relayerUrl, worker, assets } = options;
+  const [instance, setInstance] = useState<FhevmInstance | null>(null);
+  const [instanceChainId, setInstanceChainId] = useState<number | null>(null);
   const [status, setStatus] = useState<'idle' | 'loading' | 'ready' | 'error'>('idle');
   const [error, setError] = useState<string>('');
+  const [errorCode, setErrorCode] = useState<FhevmErrorCode | null>(null);
+  const requestedChainId = useRef<number | undefined>(undefined);
+  // Usually an inline object literal - read at call time instead of re-creating `initialize` every render
+  const assetsRef = useRef(assets);
+  assetsRef.current = assets;
+  const { progress, track } = useWorkerProgress(['loading-sdk', 'loading-wasm', 'creating-instance']);
 
-  const initialize = useCallback(async () => {
+  const initialize = useCallback(async (overrides: FhevmInstanceOptions & { chainId?: number } = {}) => {
     setStatus('loading');
     setError('');
-    
+    setErrorCode(null);
+    requestedChainId.current = overrides.chainId ?? chainId;
+
     try {
-      const fheInstance = await initializeFheInstance();
+      const fheInstance = await track(() => initializeFheInstance({ chainId, mock, rpcUrl, relayerUrl, worker, assets: assetsRef.current, ...overrides }));
       setInstance(fheInstance);
+      setInstanceChainId(getFheInstanceChainId());
       setStatus('ready');
-      console.log('✅ FHEVM initialized');
+      logger.info('Instance ready', { chainId: getFheInstanceChainId() });
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Unknown error');
+      setInstance(null);
+      setInstanceChainId(null);
+      const fhevmError = toFhevmError(err);
+      setError(fhevmError.message);
+      setErrorCode(fhevmError.code);
       setStatus('error');
-      console.error('❌ FHEVM initialization failed:', err);
+      logger.error('Initialization failed', { error: err });
     }
-  }, []);
+  }, [chainId, mock, rpcUrl, relayerUrl, worker, track]);
+
+  // Recreate the instance when the chain changes after initialization
+  useEffect(() => {
+    if (status === 'idle' || chainId === undefined || chainId === requestedChainId.current) return;
+
+    if (requestedChainId.current !== undefined) disposeInstance(requestedChainId.current);
+    setInstance(null);
+    initialize();
+  }, [chainId, status, initialize]);
 
   return {
     instance,
+    chainId: instanceChainId,
     status,
+    progress,
     error,
+    errorCode,
     initialize,
     isInitialized: status === 'ready',
   };
 }
-
-
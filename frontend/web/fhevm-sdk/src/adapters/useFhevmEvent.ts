@@ -0,0 +1,36 @@
+/**
+ * React hooks for the SDK lifecycle events
+ */
+
+import { useState, useEffect, useRef } from 'react';
+import { onFhevmEvent } from '../core/index.js';
+import type { FhevmEventOf, FhevmEventType } from '../core/index.js';
+
+/**
+ * Subscribe for the component's lifetime; the latest `listener` is always called, so it need not be memoized
+ */
+export function useFhevmEvent<K extends FhevmEventType>(type: K, listener: (event: FhevmEventOf<K>) => void) {
+  const latest = useRef(listener);
+  latest.current = listener;
+
+  useEffect(() => onFhevmEvent(type, (event) => latest.current(event)), [type]);
+}
+
+/**
+ * Whether any encryption or decryption is running anywhere in the app - for global progress indicators
+ */
+export function useFhevmActivity() {
+  const [encrypting, setEncrypting] = useState(0);
+  const [decrypting, setDecrypting] = useState(0);
+
+  useFhevmEvent('encryptStart', () => setEncrypting((count) => count + 1));
+  useFhevmEvent('encryptEnd', () => setEncrypting((count) => Math.max(0, count - 1)));
+  useFhevmEvent('decryptStart', () => setDecrypting((count) => count + 1));
+  useFhevmEvent('decryptEnd', () => setDecrypting((count) => Math.max(0, count - 1)));
+
+  return {
+    isEncrypting: encrypting > 0,
+    isDecrypting: decrypting > 0,
+    isBusy: encrypting + decrypting > 0,
+  };
+}
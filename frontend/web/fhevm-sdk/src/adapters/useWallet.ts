@@ -3,6 +3,9 @@
  */
 
 import { useState, useCallback, useEffect } from 'react';
+import { getLogger } from '../core/index.js';
+
+const logger = getLogger('useWallet');
 
 export function useWallet() {
   const [address, setAddress] = useState<string>('');
@@ -18,7 +21,7 @@ export function useWallet() {
     const handleChainChanged = async (chainIdHex: string) => {
       const newChainId = parseInt(chainIdHex, 16);
       setChainId(newChainId);
-      console.log('🔄 Chain changed to:', newChainId);
+      logger.info('Chain changed', { chainId: newChainId });
     };
 
     const handleAccountsChanged = (accounts: string[]) => {
@@ -59,10 +62,10 @@ export function useWallet() {
       const chainId = await window.ethereum.request({ method: 'eth_chainId' });
       setChainId(parseInt(chainId, 16));
 
-      console.log('✅ Wallet connected:', account);
+      logger.info('Wallet connected', { account });
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Connection failed');
-      console.error('❌ Wallet connection failed:', err);
+      logger.error('Wallet connection failed', { error: err });
     } finally {
       setIsConnecting(false);
     }
@@ -73,7 +76,7 @@ export function useWallet() {
     setIsConnected(false);
     setChainId(0);
     setError('');
-    console.log('🔌 Wallet disconnected');
+    logger.info('Wallet disconnected');
   }, []);
 
   return {
@@ -0,0 +1,33 @@
+/**
+ * Shared progress tracking for the hooks - stages reported by the FHEVM Web Worker
+ */
+
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { onWorkerProgress } from '../core/index.js';
+import type { WorkerStage } from '../core/index.js';
+
+/**
+ * `progress` follows the worker while `track` is running and only for the given stages,
+ * so a hook does not pick up work started by another one. Stays null without `worker: true`.
+ */
+export function useWorkerProgress(stages: WorkerStage[]) {
+  const [progress, setProgress] = useState<WorkerStage | null>(null);
+  const active = useRef(0);
+  const accepted = useRef(stages);
+  accepted.current = stages;
+
+  useEffect(() => onWorkerProgress(({ stage }) => {
+    if (active.current > 0 && accepted.current.includes(stage)) setProgress(stage);
+  }), []);
+
+  const track = useCallback(async <T,>(work: () => Promise<T>): Promise<T> => {
+    active.current++;
+    try {
+      return await work();
+    } finally {
+      if (--active.current === 0) setProgress(null);
+    }
+  }, []);
+
+  return { progress, track };
+}
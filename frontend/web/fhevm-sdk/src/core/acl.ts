@@ -0,0 +1,155 @@
+/**
+ * FHEVM ACL - Universal SDK
+ * Pre-flight reads of the host chain's ACL contract, so missing decryption rights surface before
+ * the wallet signs a permit or the relayer is asked for anything
+ */
+
+import { ethers } from 'ethers';
+import { FhevmError } from './errors.js';
+import { parseHandle } from './handles.js';
+import type { HandleContractPair } from './types.js';
+import { IACL__factory } from '../types/fhevm/index.js';
+
+export interface HostContracts {
+  acl: string;
+  kmsVerifier: string;
+}
+
+/**
+ * FHEVM host contracts per chain, as in `@fhevm/solidity/config/ZamaConfig.sol`
+ */
+export const FHEVM_HOST_CONTRACTS: Record<number, HostContracts> = {
+  11155111: {
+    acl: '0xf0Ffdc93b7E186bC2f8CB3dAA75D86d1930A433D',
+    kmsVerifier: '0xbE0E383937d564D7FF0BC3b46c51f0bF8d5C311A',
+  },
+  31337: {
+    acl: '0x50157CFfD6bBFA2DECe204a89ec419c23ef5755D',
+    kmsVerifier: '0x901F8942346f7AB3a01F6D7613119Bca447Bb030',
+  },
+};
+
+const hostChains = new Map<number, { runner: ethers.ContractRunner; contracts: HostContracts | undefined }>();
+
+/**
+ * Provider (and contract addresses, when they differ from the presets) used for host chain reads.
+ * Instances register their own chain; call this for chains the SDK did not create an instance for.
+ */
+export function registerHostChain(chainId: number, runner: ethers.ContractRunner, contracts: Partial<HostContracts> = {}): void {
+  const preset = FHEVM_HOST_CONTRACTS[chainId];
+  const acl = contracts.acl ?? preset?.acl;
+  const kmsVerifier = contracts.kmsVerifier ?? preset?.kmsVerifier;
+  hostChains.set(chainId, { runner, contracts: acl && kmsVerifier ? { acl, kmsVerifier } : undefined });
+}
+
+export function isHostChainRegistered(chainId: number): boolean {
+  return hostChains.has(chainId);
+}
+
+export interface HostChainOptions {
+  /** Overrides the provider registered for the handle's chain */
+  runner?: ethers.ContractRunner;
+}
+
+/**
+ * Provider and contract addresses for `chainId`
+ */
+export function getHostChain(chainId: number, options: HostChainOptions = {}): { runner: ethers.ContractRunner; contracts: HostContracts } {
+  const registered = hostChains.get(chainId);
+  const runner = options.runner ?? registered?.runner;
+  if (!runner) {
+    throw new FhevmError('NOT_INITIALIZED', `No provider for chain ${chainId}: initialize an instance for it or pass \`runner\``);
+  }
+  const contracts = registered?.contracts ?? FHEVM_HOST_CONTRACTS[chainId];
+  if (!contracts) throw new FhevmError('CHAIN_MISMATCH', `No FHEVM host contracts known for chain ${chainId}`);
+  return { runner, contracts };
+}
+
+function aclFor(handle: string | Uint8Array, options: HostChainOptions) {
+  const { handle: hex, chainId } = parseHandle(handle);
+  const { runner, contracts } = getHostChain(chainId, options);
+  return { handle: hex, acl: IACL__factory.connect(contracts.acl, runner) };
+}
+
+/**
+ * Whether `userAddress` can user-decrypt `handle` through `contractAddress`: both need ACL rights on it
+ */
+export async function canUserDecrypt(
+  handle: string | Uint8Array,
+  userAddress: string,
+  contractAddress: string,
+  options: HostChainOptions = {}
+): Promise<boolean> {
+  return (await getDecryptAccess(handle, userAddress, contractAddress, options)).userDecrypt;
+}
+
+/**
+ * Whether `handle` was marked publicly decryptable (`FHE.makePubliclyDecryptable`)
+ */
+export async function isPubliclyDecryptable(handle: string | Uint8Array, options: HostChainOptions = {}): Promise<boolean> {
+  const { handle: hex, acl } = aclFor(handle, options);
+  return acl.isAllowedForDecryption(hex);
+}
+
+export interface DecryptAccess {
+  publicDecrypt: boolean;
+  userDecrypt: boolean;
+  /** Why user decryption is not possible, worded for the end user */
+  reason?: string;
+}
+
+/**
+ * Which decryption paths are open for `handle`; pass a null `userAddress` to only check public decryption
+ */
+export async function getDecryptAccess(
+  handle: string | Uint8Array,
+  userAddress: string | null,
+  contractAddress: string,
+  options: HostChainOptions = {}
+): Promise<DecryptAccess> {
+  if (!ethers.isAddress(contractAddress)) throw new FhevmError('INVALID_INPUT', `Invalid contract address ${contractAddress}`);
+  if (userAddress !== null && !ethers.isAddress(userAddress)) throw new FhevmError('INVALID_INPUT', `Invalid user address ${userAddress}`);
+
+  const { handle: hex, acl } = aclFor(handle, options);
+  const [publicDecrypt, userAllowed, contractAllowed] = await Promise.all([
+    acl.isAllowedForDecryption(hex),
+    userAddress === null ? false : acl.isAllowed(hex, userAddress),
+    acl.isAllowed(hex, contractAddress),
+  ]);
+
+  let reason: string | undefined;
+  if (userAddress === null) reason = 'Connect a wallet to decrypt';
+  else if (ethers.getAddress(userAddress) === ethers.getAddress(contractAddress)) reason = 'The contract cannot user-decrypt its own values';
+  else if (!userAllowed) reason = `${userAddress} has not been granted access to this value`;
+  else if (!contractAllowed) reason = `Contract ${contractAddress} has no access to this value`;
+
+  return { publicDecrypt, userDecrypt: reason === undefined, reason };
+}
+
+/**
+ * Throw `ACL_DENIED` for the first pair `userAddress` cannot decrypt. Pairs on chains without a
+ * registered provider are left to the relayer.
+ */
+export async function assertUserDecryptAllowed(
+  handleContractPairs: HandleContractPair[],
+  userAddress: string,
+  options: HostChainOptions = {}
+): Promise<void> {
+  await Promise.all(handleContractPairs.map(async ({ handle, contractAddress }) => {
+    if (!options.runner && !isHostChainRegistered(parseHandle(handle).chainId)) return;
+    const access = await getDecryptAccess(handle, userAddress, contractAddress, options);
+    if (!access.userDecrypt) throw new FhevmError('ACL_DENIED', `Cannot user-decrypt handle ${parseHandle(handle).handle}: ${access.reason}`);
+  }));
+}
+
+/**
+ * Throw `ACL_DENIED` for the first handle that is not publicly decryptable (same skipping rule)
+ */
+export async function assertPubliclyDecryptable(handles: (string | Uint8Array)[], options: HostChainOptions = {}): Promise<void> {
+  await Promise.all(handles.map(async (handle) => {
+    if (!options.runner && !isHostChainRegistered(parseHandle(handle).chainId)) return;
+    if (!(await isPubliclyDecryptable(handle, options))) {
+      throw new FhevmError('ACL_DENIED', `Handle ${parseHandle(handle).handle} is not publicly decryptable`);
+    }
+  }));
+}
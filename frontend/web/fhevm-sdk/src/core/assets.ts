@@ -0,0 +1,136 @@
+/**
+ * FHEVM Assets - Universal SDK
+ * Locates the relayer SDK script and its TFHE/KMS WASM, fetches them with subresource-integrity checks
+ * and reports which asset failed and why. Shared by the main thread and the Web Worker.
+ */
+
+import type { FhevmAssetOptions } from './types.js';
+import { FhevmAssetError } from './errors.js';
+import type { FhevmAsset } from './errors.js';
+import { getLogger } from './logger.js';
+
+const logger = getLogger('assets');
+
+export const RELAYER_SDK_URL = 'https://cdn.zama.org/relayer-sdk-js/0.3.0-5/relayer-sdk-js.umd.cjs';
+
+const WASM_FILES = { tfhe: 'tfhe_bg.wasm', kms: 'kms_lib_bg.wasm' } as const;
+
+const SRI_ALGORITHMS: Record<string, string> = { sha256: 'SHA-256', sha384: 'SHA-384', sha512: 'SHA-512' };
+
+/**
+ * The part of the relayer SDK module (or `window.relayerSDK`) the loaders use
+ */
+export interface RelayerSdk {
+  initSDK(options?: { tfheParams?: any; kmsParams?: any }): Promise<unknown>;
+  createInstance(config: any): Promise<any>;
+  SepoliaConfig: Record<string, any>;
+}
+
+/**
+ * Asset options with defaults applied and absolute URLs, so they can be posted to a worker
+ */
+export interface ResolvedAssetOptions {
+  source: 'script' | 'npm';
+  sdkUrl: string;
+  wasmBaseUrl: string;
+  offlineFirst: boolean;
+  integrity: NonNullable<FhevmAssetOptions['integrity']>;
+}
+
+export function resolveAssetOptions(options: FhevmAssetOptions = {}): ResolvedAssetOptions {
+  const base = typeof location !== 'undefined' ? location.href : undefined;
+  const absolute = (url: string) => (base ? new URL(url, base).href : url);
+  const wasmBaseUrl = absolute(options.wasmBaseUrl ?? '/');
+
+  return {
+    source: options.source ?? 'script',
+    sdkUrl: absolute(options.sdkUrl ?? RELAYER_SDK_URL),
+    wasmBaseUrl: wasmBaseUrl.endsWith('/') ? wasmBaseUrl : `${wasmBaseUrl}/`,
+    offlineFirst: options.offlineFirst ?? false,
+    integrity: options.integrity ?? {},
+  };
+}
+
+function toBase64(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes));
+}
+
+/**
+ * Check `bytes` against an SRI string - any one of its space-separated hashes has to match
+ */
+async function checkIntegrity(asset: FhevmAsset, url: string, bytes: ArrayBuffer, integrity: string): Promise<void> {
+  const actual: string[] = [];
+  for (const entry of integrity.trim().split(/\s+/)) {
+    const separator = entry.indexOf('-');
+    const algorithm = entry.slice(0, separator);
+    const digestName = SRI_ALGORITHMS[algorithm];
+    if (separator < 0 || !digestName) {
+      throw new FhevmAssetError(asset, url, `unsupported integrity value "${entry}" (use sha256-, sha384- or sha512-)`);
+    }
+    const digest = `${algorithm}-${toBase64(new Uint8Array(await crypto.subtle.digest(digestName, bytes)))}`;
+    if (digest === entry) return;
+    actual.push(digest);
+  }
+  throw new FhevmAssetError(asset, url, `integrity check failed: expected ${integrity}, got ${actual.join(' ')}`);
+}
+
+/**
+ * Fetch one asset, turning network errors, HTTP errors and hash mismatches into a `FhevmAssetError`
+ */
+export async function fetchAsset(asset: FhevmAsset, url: string, integrity?: string): Promise<ArrayBuffer> {
+  let response: Response;
+  try {
+    response = await fetch(url);
+  } catch (err) {
+    const reason = err instanceof Error ? err.message : String(err);
+    throw new FhevmAssetError(asset, url, `network error (${reason}) - offline or blocked by CORS?`, err);
+  }
+  if (!response.ok) {
+    throw new FhevmAssetError(asset, url, `HTTP ${response.status} ${response.statusText}`.trim());
+  }
+
+  const bytes = await response.arrayBuffer();
+  if (integrity) await checkIntegrity(asset, url, bytes, integrity);
+  return bytes;
+}
+
+/**
+ * Initialize the TFHE and KMS WASM. By default the SDK loads them from its own location (the CDN for
+ * the script, the package for npm) and `wasmBaseUrl` is the fallback; `offlineFirst` swaps the order.
+ * The SDK fetches its default WASM itself, so with integrity hashes only the checked local copies are used.
+ */
+export async function initRelayerWasm(sdk: RelayerSdk, assets: ResolvedAssetOptions): Promise<'default' | 'local'> {
+  const loadLocal = async () => {
+    const [tfheParams, kmsParams] = await Promise.all([
+      fetchAsset('tfhe', assets.wasmBaseUrl + WASM_FILES.tfhe, assets.integrity.tfhe),
+      fetchAsset('kms', assets.wasmBaseUrl + WASM_FILES.kms, assets.integrity.kms),
+    ]);
+    await sdk.initSDK({ tfheParams, kmsParams });
+    return 'local' as const;
+  };
+
+  if (assets.integrity.tfhe || assets.integrity.kms) return loadLocal();
+
+  if (assets.offlineFirst) {
+    try {
+      return await loadLocal();
+    } catch (localError) {
+      logger.warn('Local WASM unavailable, loading from the SDK default location', { error: localError });
+      try {
+        await sdk.initSDK();
+        return 'default';
+      } catch {
+        // The local failure names the asset and the reason
+        throw localError;
+      }
+    }
+  }
+
+  try {
+    await sdk.initSDK();
+    return 'default';
+  } catch (defaultError) {
+    logger.warn('WASM from the SDK default location failed, falling back to local files', { error: defaultError });
+    return loadLocal();
+  }
+}
@@ -0,0 +1,423 @@
+/**
+ * Domain Auction Client - Universal SDK
+ * Typed wrapper around the DomainBidAdapter contract (bindings generated by `npm run typechain:sdk`)
+ */
+
+import { ethers } from 'ethers';
+import { FhevmError } from './errors.js';
+import { createEncryptedInput, publicDecryptV09 } from './fhevm.js';
+import { validateHandle } from './handles.js';
+import { verifyDecryptionProof } from './proof.js';
+import { DomainBidAdapter__factory } from '../types/contracts/index.js';
+import type { DomainBidAdapter } from '../types/contracts/index.js';
+
+export type { DomainBidAdapter };
+
+/**
+ * Mirrors `DomainBidAdapter.AuctionState` - keep the order in sync with the contract
+ */
+export enum AuctionState {
+  Open,
+  Closed,
+  Revealed,
+  Settled,
+  Cancelled,
+}
+
+/**
+ * Bids, reserves and prices are encrypted as euint32 counts of this unit (`DomainBidAdapter.PRICE_UNIT`)
+ */
+export const PRICE_UNIT_WEI = 10n ** 15n;
+
+/**
+ * Convert an ETH amount string (e.g. "0.25") to price units, rounding down
+ */
+export function toPriceUnits(eth: string): number {
+  return Number(ethers.parseEther(eth || '0') / PRICE_UNIT_WEI);
+}
+
+/**
+ * Convert price units back to an ETH amount string
+ */
+export function formatPriceUnits(units: number | bigint): string {
+  return ethers.formatEther(BigInt(units) * PRICE_UNIT_WEI);
+}
+
+/**
+ * Mirrors the contract's encrypted `bid <= deposit` check - bids failing it are zeroed on-chain
+ */
+export function isDepositSufficient(bidUnits: number, depositWei: bigint): boolean {
+  return BigInt(bidUnits) <= depositWei / PRICE_UNIT_WEI;
+}
+
+/**
+ * Handle and input proof for one encrypted contract argument (from `createEncryptedInput`)
+ */
+export interface EncryptedInput {
+  encryptedData: ethers.BytesLike;
+  proof: ethers.BytesLike;
+}
+
+/**
+ * Bids made publicly decryptable per `revealBids` transaction, so one call stays well under the block gas limit
+ */
+export const REVEAL_BATCH_SIZE = 50;
+
+/**
+ * Auction period limits in seconds, mirroring the contract constants `createAuction` enforces
+ */
+export const MAX_BIDDING_DURATION = 30 * 24 * 60 * 60;
+export const MIN_REVEAL_DURATION = 24 * 60 * 60;
+export const MAX_REVEAL_DURATION = 7 * 24 * 60 * 60;
+
+export type AuctionAction = 'bid' | 'close' | 'reveal' | 'revealBids' | 'settle' | 'cancel';
+
+export interface AuctionInfo {
+  domainName: string;
+  /** Bumped each time a cancelled domain is put up for auction again; bids belong to one round */
+  round: number;
+  seller: string;
+  biddingEnd: number;
+  revealEnd: number;
+  state: AuctionState;
+  bidCount: number;
+  winner: string;
+  winningPrice: number;
+  /** Whether the encrypted reserve check has been revealed yet */
+  reserveChecked: boolean;
+  reserveMet: boolean;
+  /** Bids made publicly decryptable so far, in bid order */
+  revealedBidCount: number;
+}
+
+export interface AuctionBid {
+  domainName: string;
+  bidIndex: number;
+  deposit: bigint;
+  bidder: string;
+  bidTime: number;
+  /** Whether the deposit has been released into the bidder's claimable balance */
+  isRefunded: boolean;
+}
+
+/**
+ * ERC-721 token minted to the auction winner; the token ID is `keccak256(domainName)`
+ */
+export interface DomainToken {
+  domainName: string;
+  tokenId: bigint;
+  owner: string;
+  registrationDate: number;
+}
+
+/**
+ * One `tokenURI` attribute - the domain name, or the registration date as a unix timestamp
+ */
+export interface DomainTokenAttribute {
+  trait_type: string;
+  value: string | number;
+  display_type?: 'date';
+}
+
+/**
+ * JSON metadata `tokenURI` serves for a domain token
+ */
+export interface DomainTokenMetadata {
+  name: string;
+  description: string;
+  attributes: DomainTokenAttribute[];
+}
+
+/**
+ * Which transitions `account` can trigger on `auction` at time `now` (unix seconds)
+ */
+export function getAvailableActions(
+  auction: AuctionInfo,
+  account: string,
+  hasBid: boolean,
+  now: number = Math.floor(Date.now() / 1000)
+): AuctionAction[] {
+  const isSeller = auction.seller.toLowerCase() === account.toLowerCase();
+  const actions: AuctionAction[] = [];
+
+  switch (auction.state) {
+    case AuctionState.Open:
+      if (now < auction.biddingEnd) {
+        if (!isSeller && !hasBid) actions.push('bid');
+        if (isSeller && auction.bidCount === 0) actions.push('cancel');
+      } else {
+        actions.push('close');
+      }
+      break;
+    case AuctionState.Closed:
+      actions.push(now < auction.revealEnd ? 'reveal' : 'cancel');
+      break;
+    case AuctionState.Revealed:
+      actions.push('settle');
+      break;
+  }
+  if (auction.state !== AuctionState.Open && auction.revealedBidCount < auction.bidCount) {
+    actions.push('revealBids');
+  }
+
+  return actions;
+}
+
+/**
+ * Whether `account` can claim the deposit of `bid` back: after a cancellation, or after settlement for losing bids
+ */
+export function canClaimRefund(auction: AuctionInfo, bid: AuctionBid, account: string): boolean {
+  if (bid.isRefunded || bid.bidder.toLowerCase() !== account.toLowerCase()) return false;
+  return auction.state === AuctionState.Cancelled ||
+    (auction.state === AuctionState.Settled && auction.winner.toLowerCase() !== account.toLowerCase());
+}
+
+export class DomainBidClient {
+  readonly contract: DomainBidAdapter;
+
+  constructor(contract: DomainBidAdapter) {
+    this.contract = contract;
+  }
+
+  /**
+   * Bind to a deployed DomainBidAdapter - pass a Signer as `runner` to send transactions
+   */
+  static connect(address: string, runner: ethers.ContractRunner | null): DomainBidClient {
+    return new DomainBidClient(DomainBidAdapter__factory.connect(address, runner));
+  }
+
+  async getAddress(): Promise<string> {
+    return this.contract.getAddress();
+  }
+
+  async getAuction(domainName: string): Promise<AuctionInfo> {
+    const [auction, round] = await Promise.all([
+      this.contract.getAuction(domainName),
+      this.contract.auctionRound(domainName),
+    ]);
+    return {
+      domainName,
+      round: Number(round),
+      seller: auction.seller,
+      biddingEnd: Number(auction.biddingEnd),
+      revealEnd: Number(auction.revealEnd),
+      state: Number(auction.state) as AuctionState,
+      bidCount: Number(auction.bidCount),
+      winner: auction.winner,
+      winningPrice: Number(auction.winningPrice),
+      reserveChecked: auction.reserveChecked,
+      reserveMet: auction.reserveMet,
+      revealedBidCount: Number(auction.revealedBidCount),
+    };
+  }
+
+  async getAuctions(): Promise<AuctionInfo[]> {
+    const domainNames = await this.contract.getAllDomainNames();
+    return Promise.all(domainNames.map(domainName => this.getAuction(domainName)));
+  }
+
+  async getBids(domainName: string): Promise<AuctionBid[]> {
+    const bidCount = Number(await this.contract.getBidCount(domainName));
+    const bids: AuctionBid[] = [];
+
+    for (let bidIndex = 0; bidIndex < bidCount; bidIndex++) {
+      const bid = await this.contract.getBidDetails(domainName, bidIndex);
+      bids.push({
+        domainName,
+        bidIndex,
+        deposit: bid.deposit,
+        bidder: bid.bidder,
+        bidTime: Number(bid.bidTime),
+        isRefunded: bid.isRefunded,
+      });
+    }
+
+    return bids;
+  }
+
+  /**
+   * Index of `bidder`'s bid on `domainName` - reverts with "Bid does not exist" if they have not bid
+   */
+  async getBidIndex(domainName: string, bidder: string): Promise<number> {
+    return Number(await this.contract.getBidIndex(domainName, bidder));
+  }
+
+  /**
+   * Ownership token for a settled domain, or null while the domain is unregistered
+   */
+  async getDomainToken(domainName: string): Promise<DomainToken | null> {
+    if (!(await this.contract.isDomainRegistered(domainName))) return null;
+
+    const token = await this.contract.getDomainToken(domainName);
+    return {
+      domainName,
+      tokenId: token.tokenId,
+      owner: token.owner,
+      registrationDate: Number(token.registrationDate),
+    };
+  }
+
+  async getOwnedDomains(account: string): Promise<DomainToken[]> {
+    const domainNames = await this.contract.getAllDomainNames();
+    const tokens = await Promise.all(domainNames.map(domainName => this.getDomainToken(domainName)));
+    return tokens.filter((token): token is DomainToken =>
+      token !== null && token.owner.toLowerCase() === account.toLowerCase()
+    );
+  }
+
+  /**
+   * Decoded `tokenURI` metadata (served on-chain as a base64 JSON data URI)
+   */
+  async getTokenMetadata(tokenId: bigint): Promise<DomainTokenMetadata> {
+    const uri = await this.contract.tokenURI(tokenId);
+    const json = ethers.toUtf8String(ethers.decodeBase64(uri.slice(uri.indexOf(',') + 1)));
+    return JSON.parse(json) as DomainTokenMetadata;
+  }
+
+  /**
+   * Refunds, seller proceeds and fees credited to `account` and not yet withdrawn (in wei)
+   */
+  async getClaimableBalance(account: string): Promise<bigint> {
+    return this.contract.pendingWithdrawals(account);
+  }
+
+  /**
+   * Protocol fee recipient and its share of each clearing price, in basis points
+   */
+  async getProtocolFee(): Promise<{ treasury: string; feeBps: number }> {
+    const [treasury, feeBps] = await Promise.all([this.contract.treasury(), this.contract.PROTOCOL_FEE_BPS()]);
+    return { treasury, feeBps: Number(feeBps) };
+  }
+
+  async getEncryptedBid(domainName: string, bidIndex: number): Promise<string> {
+    return this.contract.getEncryptedBid(domainName, bidIndex);
+  }
+
+  /**
+   * Seller-only: handle of the encrypted reserve price (decrypt with `decryptValue`)
+   */
+  async getEncryptedReserve(domainName: string): Promise<string> {
+    return this.contract.getEncryptedReserve(domainName);
+  }
+
+  /**
+   * Handles for the winner address, clearing price and reserve pass/fail bit, in `verifyWinner` order
+   */
+  async getWinnerHandles(domainName: string): Promise<[string, string, string]> {
+    const [winner, price, reserveMet] = await this.contract.getEncryptedWinner(domainName);
+    return [winner, price, reserveMet];
+  }
+
+  /**
+   * Encrypt a price (in `PRICE_UNIT`s) as a euint32 input bound to this contract and the connected signer
+   */
+  async encryptPrice(units: number): Promise<EncryptedInput> {
+    const signer = this.contract.runner as ethers.Signer | null;
+    if (!signer || typeof signer.getAddress !== 'function') {
+      throw new FhevmError('NOT_INITIALIZED', 'DomainBidClient needs a Signer runner to encrypt inputs');
+    }
+    return createEncryptedInput(await this.getAddress(), await signer.getAddress(), units);
+  }
+
+  /**
+   * Open an auction with an encrypted reserve price - plain `PRICE_UNIT` counts are encrypted first
+   */
+  async createAuction(
+    domainName: string,
+    reserve: EncryptedInput | number,
+    biddingEnd: number,
+    revealEnd: number
+  ): Promise<ethers.ContractTransactionResponse> {
+    const encryptedReserve = typeof reserve === 'number' ? await this.encryptPrice(reserve) : reserve;
+    return this.contract.createAuction(
+      domainName,
+      encryptedReserve.encryptedData,
+      encryptedReserve.proof,
+      biddingEnd,
+      revealEnd
+    );
+  }
+
+  /**
+   * Submit an encrypted bid together with the deposit (in wei) - plain `PRICE_UNIT` counts are encrypted first
+   */
+  async placeBid(
+    domainName: string,
+    bid: EncryptedInput | number,
+    deposit: bigint
+  ): Promise<ethers.ContractTransactionResponse> {
+    const encryptedBid = typeof bid === 'number' ? await this.encryptPrice(bid) : bid;
+    return this.contract.placeBid(domainName, encryptedBid.encryptedData, encryptedBid.proof, { value: deposit });
+  }
+
+  async closeAuction(domainName: string): Promise<ethers.ContractTransactionResponse> {
+    return this.contract.closeAuction(domainName);
+  }
+
+  /**
+   * Make the next `maxCount` bids publicly decryptable once the auction is closed; repeat until all are revealed
+   */
+  async revealBids(domainName: string, maxCount: number = REVEAL_BATCH_SIZE): Promise<ethers.ContractTransactionResponse> {
+    return this.contract.revealBids(domainName, maxCount);
+  }
+
+  async verifyWinner(
+    domainName: string,
+    abiEncodedClearValues: string,
+    decryptionProof: string
+  ): Promise<ethers.ContractTransactionResponse> {
+    return this.contract.verifyWinner(domainName, abiEncodedClearValues, decryptionProof);
+  }
+
+  /**
+   * Public-decrypt the winner handles and verify them on-chain in one step
+   */
+  async revealWinner(domainName: string): Promise<ethers.ContractTransactionResponse> {
+    const handles = await this.getWinnerHandles(domainName);
+    // A zero handle here means the auction was never closed
+    validateHandle(handles[0], { type: 'eaddress' });
+    validateHandle(handles[1], { type: 'euint32' });
+    validateHandle(handles[2], { type: 'ebool' });
+    const decryptionResult = await publicDecryptV09(handles);
+    await verifyDecryptionProof(handles, decryptionResult.abiEncodedClearValues, decryptionResult.decryptionProof);
+    return this.verifyWinner(domainName, decryptionResult.abiEncodedClearValues, decryptionResult.decryptionProof);
+  }
+
+  async settleAuction(domainName: string): Promise<ethers.ContractTransactionResponse> {
+    return this.contract.settleAuction(domainName);
+  }
+
+  async cancelAuction(domainName: string): Promise<ethers.ContractTransactionResponse> {
+    return this.contract.cancelAuction(domainName);
+  }
+
+  async transferDomain(from: string, to: string, domainName: string): Promise<ethers.ContractTransactionResponse> {
+    const tokenId = await this.contract.domainTokenId(domainName);
+    return this.contract['safeTransferFrom(address,address,uint256)'](from, to, tokenId);
+  }
+
+  /**
+   * Credit the caller's deposit for `domainName` to their claimable balance - see `canClaimRefund`. Defaults to the
+   * current round; earlier rounds were cancelled, so their deposits can always be claimed.
+   */
+  async claimRefund(domainName: string, round?: number): Promise<ethers.ContractTransactionResponse> {
+    return this.contract.claimRefund(domainName, round ?? (await this.contract.auctionRound(domainName)));
+  }
+
+  /**
+   * Earlier, cancelled rounds of `domainName` in which `account` still has a deposit to claim
+   */
+  async getUnclaimedRefundRounds(domainName: string, account: string): Promise<number[]> {
+    const currentRound = Number(await this.contract.auctionRound(domainName));
+    const rounds = Array.from({ length: currentRound }, (_, round) => round);
+    const bids = await Promise.all(rounds.map(round => this.contract.getRoundBid(domainName, round, account)));
+    return rounds.filter((_, i) => bids[i].exists && !bids[i].isRefunded);
+  }
+
+  /**
+   * Withdraw the caller's whole claimable balance
+   */
+  async withdrawFunds(): Promise<ethers.ContractTransactionResponse> {
+    return this.contract.withdrawFunds();
+  }
+}
@@ -4,7 +4,9 @@
  */
 
 import { ethers } from 'ethers';
-import { createEncryptedInput } from './fhevm.js';
+import { FhevmError, toFhevmError } from './errors.js';
+import { createEncryptedInput, createEncryptedInputs } from './fhevm.js';
+import type { EncryptedValue } from './types.js';
 
 export class FhevmContract {
   private contract: ethers.Contract;
@@ -16,14 +18,19 @@ export class FhevmContract {
   }
 
   /**
-   * Encrypt and call contract function
+   * Encrypt `values` into one input and call `functionName(handle0, ..., handleN, inputProof, ...additionalParams)`
    */
   async encryptAndCall(
     functionName: string,
-    encryptedParams: any,
+    encrypted: { userAddress: string; values: EncryptedValue[] },
     ...additionalParams: any[]
   ): Promise<ethers.ContractTransactionResponse> {
-    return this.contract[functionName](encryptedParams.encryptedData, encryptedParams.proof, ...additionalParams);
+    const { handles, inputProof } = await createEncryptedInputs(this.address, encrypted.userAddress, encrypted.values);
+    try {
+      return await this.contract[functionName](...handles, inputProof, ...additionalParams);
+    } catch (error) {
+      throw toFhevmError(error);
+    }
   }
 
   /**
@@ -31,13 +38,18 @@ export class FhevmContract {
    */
   async encryptAndCallAndWait(
     functionName: string,
-    encryptedParams: any,
+    encrypted: { userAddress: string; values: EncryptedValue[] },
     ...additionalParams: any[]
   ): Promise<ethers.TransactionReceipt> {
-    const tx = await this.encryptAndCall(functionName, encryptedParams, ...additionalParams);
-    const receipt = await tx.wait();
+    const tx = await this.encryptAndCall(functionName, encrypted, ...additionalParams);
+    let receipt: ethers.TransactionReceipt | null;
+    try {
+      receipt = await tx.wait();
+    } catch (error) {
+      throw toFhevmError(error);
+    }
     if (!receipt) {
-      throw new Error("Transaction receipt is null");
+      throw new FhevmError('INVALID_RESPONSE', "Transaction receipt is null");
     }
     return receipt;
   }
@@ -48,6 +60,11 @@ export class FhevmContract {
   async createEncryptedInput(userAddress: string, value: number) {
     return createEncryptedInput(this.address, userAddress, value);
   }
-}
-
 
+  /**
+   * Create one encrypted input holding several typed values
+   */
+  async createEncryptedInputs(userAddress: string, values: EncryptedValue[]) {
+    return createEncryptedInputs(this.address, userAddress, values);
+  }
+}
@@ -0,0 +1,106 @@
+/**
+ * FHEVM EIP-1193 Bridge - Universal SDK
+ * Exposes an ethers Provider, plus an optional Signer, as the EIP-1193 object the relayer SDK expects
+ */
+
+import { ethers } from 'ethers';
+import { FhevmError } from './errors.js';
+
+/**
+ * Anything a Node.js instance can talk to: an ethers Provider (JsonRpcProvider, `hre.ethers.provider`)
+ * or a raw EIP-1193 provider (`hre.network.provider`, an injected wallet)
+ */
+export type FhevmProvider = ethers.Provider | ethers.Eip1193Provider;
+
+export interface Eip1193Bridge extends ethers.Eip1193Provider {
+  on(event: string, listener: (...args: any[]) => void): void;
+  removeListener(event: string, listener: (...args: any[]) => void): void;
+}
+
+function isEip1193(provider: FhevmProvider): provider is ethers.Eip1193Provider {
+  return typeof (provider as ethers.Eip1193Provider).request === 'function';
+}
+
+/**
+ * Ethers view of `provider`, for contract reads
+ */
+export function toEthersProvider(provider: FhevmProvider): ethers.Provider {
+  if (typeof (provider as ethers.Provider).getNetwork === 'function') return provider as ethers.Provider;
+  return new ethers.BrowserProvider(provider as ethers.Eip1193Provider);
+}
+
+/**
+ * Chain ID as reported by the node behind `provider`
+ */
+export async function getProviderChainId(provider: FhevmProvider): Promise<number> {
+  if (isEip1193(provider)) return Number(await provider.request({ method: 'eth_chainId' }));
+  return Number((await provider.getNetwork()).chainId);
+}
+
+function sendRaw(provider: FhevmProvider, method: string, params: any[]): Promise<any> {
+  if (isEip1193(provider)) return provider.request({ method, params });
+  const send = (provider as { send?: (method: string, params: any[]) => Promise<any> }).send;
+  if (typeof send !== 'function') {
+    throw new FhevmError('INVALID_INPUT', `Provider cannot forward JSON-RPC method ${method}; use a JsonRpcProvider`);
+  }
+  return send.call(provider, method, params);
+}
+
+function toTransactionRequest(tx: Record<string, any>): ethers.TransactionRequest {
+  return {
+    to: tx.to,
+    from: tx.from,
+    data: tx.data ?? tx.input,
+    value: tx.value,
+    gasLimit: tx.gas ?? tx.gasLimit,
+    gasPrice: tx.gasPrice,
+    maxFeePerGas: tx.maxFeePerGas,
+    maxPriorityFeePerGas: tx.maxPriorityFeePerGas,
+    nonce: tx.nonce === undefined ? undefined : Number(tx.nonce),
+    type: tx.type === undefined ? undefined : Number(tx.type),
+    accessList: tx.accessList,
+  };
+}
+
+/**
+ * EIP-1193 provider backed by `provider`: the chain ID comes from the node, every other JSON-RPC method
+ * is passed through, and accounts and signing go to `signer` when one is given
+ */
+export function createEip1193Bridge(provider: FhevmProvider, signer?: ethers.Signer): Eip1193Bridge {
+  const request = async ({ method, params }: { method: string; params?: any[] | Record<string, any> }) => {
+    const args = Array.isArray(params) ? params : params === undefined ? [] : [params];
+
+    switch (method) {
+      case 'eth_chainId':
+        return ethers.toQuantity(await getProviderChainId(provider));
+      case 'eth_accounts':
+      case 'eth_requestAccounts':
+        if (signer) return [await signer.getAddress()];
+        break;
+      case 'eth_sendTransaction':
+        if (signer) return (await signer.sendTransaction(toTransactionRequest(args[0]))).hash;
+        break;
+      case 'eth_signTypedData_v4':
+        if (signer) {
+          const typedData = typeof args[1] === 'string' ? JSON.parse(args[1]) : args[1];
+          const { EIP712Domain: _domain, ...types } = typedData.types;
+          return signer.signTypedData(typedData.domain, types, typedData.message);
+        }
+        break;
+      case 'personal_sign':
+        if (signer) {
+          const message = args[0] as string;
+          return signer.signMessage(ethers.isHexString(message) ? ethers.getBytes(message) : message);
+        }
+        break;
+    }
+    return sendRaw(provider, method, args);
+  };
+
+  return {
+    request,
+    // Chain and account changes do not happen behind a backend's back
+    on: () => {},
+    removeListener: () => {},
+  };
+}
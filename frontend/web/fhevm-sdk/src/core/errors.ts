@@ -0,0 +1,113 @@
+/**
+ * FHEVM Errors - Universal SDK
+ * Stable codes for everything the SDK throws, so callers branch on `code` instead of matching messages
+ */
+
+export type FhevmErrorCode =
+  | 'NOT_INITIALIZED'
+  | 'RELAYER_UNAVAILABLE'
+  | 'ACL_DENIED'
+  | 'INVALID_HANDLE'
+  | 'INVALID_INPUT'
+  | 'INVALID_RESPONSE'
+  | 'SIGNATURE_REJECTED'
+  | 'PROOF_INVALID'
+  | 'CHAIN_MISMATCH'
+  | 'CONTRACT_REVERT'
+  | 'ABORTED'
+  | 'UNKNOWN';
+
+export class FhevmError extends Error {
+  readonly code: FhevmErrorCode;
+  readonly cause?: unknown;
+  /** Revert reason string or custom error name when the error came from a contract */
+  readonly reason?: string;
+
+  constructor(code: FhevmErrorCode, message: string, options: { cause?: unknown; reason?: string } = {}) {
+    super(message);
+    this.name = 'FhevmError';
+    this.code = code;
+    this.cause = options.cause;
+    this.reason = options.reason;
+  }
+}
+
+/**
+ * Thrown before anything is sent to the relayer when an encrypted input is malformed
+ */
+export class FhevmInputError extends FhevmError {
+  constructor(message: string, readonly index?: number) {
+    super('INVALID_INPUT', index === undefined ? message : `Encrypted input #${index}: ${message}`);
+    this.name = 'FhevmInputError';
+  }
+}
+
+export type FhevmAsset = 'sdk' | 'tfhe' | 'kms';
+
+/**
+ * The relayer SDK script or one of its WASM files could not be loaded, or failed its integrity check
+ */
+export class FhevmAssetError extends FhevmError {
+  constructor(readonly asset: FhevmAsset, readonly url: string, reason: string, cause?: unknown) {
+    super('RELAYER_UNAVAILABLE', `Failed to load ${asset} from ${url}: ${reason}`, { cause });
+    this.name = 'FhevmAssetError';
+  }
+}
+
+export function isFhevmError(error: unknown, code?: FhevmErrorCode): error is FhevmError {
+  return error instanceof FhevmError && (code === undefined || error.code === code);
+}
+
+/**
+ * `DomainBidAdapter` revert reasons and FHE library custom errors that have an SDK code of their own;
+ * every other revert becomes `CONTRACT_REVERT` with the reason attached
+ */
+const REVERT_CODES: Record<string, FhevmErrorCode> = {
+  'Invalid encrypted input': 'INVALID_HANDLE',
+  InvalidKMSSignatures: 'PROOF_INVALID',
+  ZamaProtocolUnsupported: 'CHAIN_MISMATCH',
+  SenderNotAllowed: 'ACL_DENIED',
+};
+
+/**
+ * Relayer SDK and fetch failures only surface as messages - keep the matching here, in one place
+ */
+const MESSAGE_CODES: [RegExp, FhevmErrorCode][] = [
+  [/failed to fetch|networkerror|fetch failed|http error|econnrefused|etimedout/i, 'RELAYER_UNAVAILABLE'],
+  [/not authorized to user decrypt|not allowed for public decryption/i, 'ACL_DENIED'],
+  [/handle .* is not of valid|unsupported handle type/i, 'INVALID_HANDLE'],
+  [/user rejected|user denied/i, 'SIGNATURE_REJECTED'],
+  [/signers threshold is not reached|user decrypt request has expired/i, 'PROOF_INVALID'],
+];
+
+/**
+ * Normalize anything thrown by ethers, the wallet, the relayer SDK or `DomainBidAdapter` into a `FhevmError`
+ */
+export function toFhevmError(error: unknown, fallback: FhevmErrorCode = 'UNKNOWN'): FhevmError {
+  if (error instanceof FhevmError) return error;
+
+  const e = error as any;
+  if (e?.name === 'AbortError') {
+    return new FhevmError('ABORTED', 'Request was aborted', { cause: error });
+  }
+  if (e?.code === 'ACTION_REJECTED' || e?.code === 4001 || e?.info?.error?.code === 4001) {
+    return new FhevmError('SIGNATURE_REJECTED', 'Request rejected in the wallet', { cause: error });
+  }
+  if (e?.code === 'CALL_EXCEPTION') {
+    const reason: string | undefined = e.revert?.name === 'Error' ? e.revert.args?.[0] : e.revert?.name ?? e.reason ?? undefined;
+    const code = (reason && REVERT_CODES[reason]) || 'CONTRACT_REVERT';
+    return new FhevmError(code, reason ? `Contract reverted: ${reason}` : 'Contract call reverted', { cause: error, reason });
+  }
+  if (e?.code === 'NETWORK_ERROR' && /network changed/i.test(e?.message ?? '')) {
+    return new FhevmError('CHAIN_MISMATCH', 'The wallet switched networks during the request', { cause: error });
+  }
+
+  const message = error instanceof Error ? error.message : String(error);
+  const causeMessage = e?.cause instanceof Error ? e.cause.message : '';
+  for (const [pattern, code] of MESSAGE_CODES) {
+    if (pattern.test(message) || pattern.test(causeMessage)) {
+      return new FhevmError(code, message, { cause: error });
+    }
+  }
+  return new FhevmError(fallback, message, { cause: error });
+}
@@ -0,0 +1,142 @@
+/**
+ * FHEVM Events - Universal SDK
+ * Typed lifecycle events from the core, so progress indicators, analytics and UI state can subscribe
+ * instead of polling hook state. Works the same in the browser and in Node.js.
+ */
+
+import { toFhevmError } from './errors.js';
+import type { FhevmError } from './errors.js';
+import { getLogger } from './logger.js';
+
+const logger = getLogger('events');
+
+export type FhevmInstanceMode = 'relayer' | 'worker' | 'mock';
+
+/**
+ * What the caller reports for each tracked operation; the tracker adds `OperationTiming`
+ */
+export interface FhevmOperationDetails {
+  encrypt: {
+    contractAddress: string;
+    /** Number of values in the encrypted input */
+    values: number;
+  };
+  decrypt: {
+    kind: 'public' | 'user';
+    handles: number;
+  };
+}
+
+export type FhevmOperation = keyof FhevmOperationDetails;
+
+export interface OperationTiming {
+  /** Shared by the matching start and end events */
+  id: number;
+  startedAt: number;
+}
+
+export type EncryptEventDetails = OperationTiming & FhevmOperationDetails['encrypt'];
+
+export type DecryptEventDetails = OperationTiming & FhevmOperationDetails['decrypt'];
+
+/** Set on end events; `error` is only present when the operation failed */
+export interface OperationResult {
+  durationMs: number;
+  error?: FhevmError;
+}
+
+export interface FhevmEventMap {
+  initialized: { chainId: number; mode: FhevmInstanceMode; durationMs: number };
+  chainChanged: { previousChainId: number | null; chainId: number };
+  encryptStart: EncryptEventDetails;
+  encryptEnd: EncryptEventDetails & OperationResult;
+  decryptStart: DecryptEventDetails;
+  decryptEnd: DecryptEventDetails & OperationResult;
+  /** One failed relayer attempt; `willRetry` is false for the attempt whose error reaches the caller */
+  relayerError: { operation: string; attempt: number; willRetry: boolean; durationMs: number; error: FhevmError };
+  /** A stored decryption permit ran out (or is within its refresh margin) and will be re-signed */
+  sessionExpired: { chainId: number; userAddress: string; expiresAt: number };
+}
+
+export type FhevmEventType = keyof FhevmEventMap;
+
+export type FhevmEvent = {
+  [K in FhevmEventType]: { type: K; timestamp: number } & FhevmEventMap[K];
+}[FhevmEventType];
+
+export type FhevmEventOf<K extends FhevmEventType> = Extract<FhevmEvent, { type: K }>;
+
+type Listener = (event: FhevmEvent) => void;
+
+const listeners = new Map<FhevmEventType | '*', Set<Listener>>();
+
+/**
+ * Subscribe to one event type, or to every event with `'*'`; returns the unsubscribe function
+ */
+export function onFhevmEvent<K extends FhevmEventType>(type: K, listener: (event: FhevmEventOf<K>) => void): () => void;
+export function onFhevmEvent(type: '*', listener: (event: FhevmEvent) => void): () => void;
+export function onFhevmEvent(type: FhevmEventType | '*', listener: Listener): () => void {
+  let set = listeners.get(type);
+  if (!set) listeners.set(type, (set = new Set()));
+  set.add(listener);
+  return () => {
+    set!.delete(listener);
+  };
+}
+
+export function emitFhevmEvent<K extends FhevmEventType>(type: K, details: FhevmEventMap[K]): void {
+  const event = { ...details, type, timestamp: Date.now() } as FhevmEvent;
+  for (const listener of [...(listeners.get(type) ?? []), ...(listeners.get('*') ?? [])]) {
+    try {
+      listener(event);
+    } catch (error) {
+      // A broken subscriber must never break an SDK call
+      logger.warn('Event listener threw', { type, error });
+    }
+  }
+}
+
+let nextOperationId = 1;
+
+type OperationEmitters = {
+  [K in FhevmOperation]: {
+    start(details: OperationTiming & FhevmOperationDetails[K]): void;
+    end(details: OperationTiming & FhevmOperationDetails[K] & OperationResult): void;
+  };
+};
+
+const operationEmitters: OperationEmitters = {
+  encrypt: {
+    start: (details) => emitFhevmEvent('encryptStart', details),
+    end: (details) => emitFhevmEvent('encryptEnd', details),
+  },
+  decrypt: {
+    start: (details) => emitFhevmEvent('decryptStart', details),
+    end: (details) => emitFhevmEvent('decryptEnd', details),
+  },
+};
+
+/**
+ * Run `work` between an `encryptStart`/`decryptStart` and the matching end event, with its duration;
+ * errors are normalized to `FhevmError` before they are reported and rethrown
+ */
+export async function trackFhevmOperation<K extends FhevmOperation, T>(
+  kind: K,
+  details: FhevmOperationDetails[K],
+  work: () => Promise<T>
+): Promise<T> {
+  const emitters = operationEmitters[kind];
+  const start: OperationTiming & FhevmOperationDetails[K] = { ...details, id: nextOperationId++, startedAt: Date.now() };
+  const end = (result: OperationResult) => emitters.end({ ...start, ...result });
+  emitters.start(start);
+
+  try {
+    const result = await work();
+    end({ durationMs: Date.now() - start.startedAt });
+    return result;
+  } catch (err) {
+    const error = toFhevmError(err);
+    end({ durationMs: Date.now() - start.startedAt, error });
+    throw error;
+  }
+}
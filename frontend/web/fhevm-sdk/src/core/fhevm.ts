@@ -5,394 +5,721 @@
  */
 
 import { ethers } from "ethers";
+import type {
+  ClearValueType,
+  EncryptedInputs,
+  EncryptedValue,
+  FhevmInstance,
+  FhevmInstanceOptions,
+  HandleContractPair,
+  PublicDecryptResults,
+  RelayerEncryptedInput,
+} from './types.js';
+import { assertPubliclyDecryptable, assertUserDecryptAllowed, registerHostChain } from './acl.js';
+import { initRelayerWasm, resolveAssetOptions } from './assets.js';
+import type { RelayerSdk, ResolvedAssetOptions } from './assets.js';
+import { createEip1193Bridge, getProviderChainId, toEthersProvider } from './eip1193.js';
+import { FhevmAssetError, FhevmError, FhevmInputError, toFhevmError } from './errors.js';
+import { emitFhevmEvent, trackFhevmOperation } from './events.js';
+import { getHandleAbiType, parseHandle, validateHandle } from './handles.js';
+import { getLogger } from './logger.js';
+import { getDecryptionSessionManager } from './session.js';
+import { getRelayerTransport } from './transport.js';
+import { WorkerFhevmInstance, createWorkerFheInstance, isWorkerSupported } from './worker.js';
+import type { RelayerCallOptions } from './transport.js';
+import type { DecryptionSession } from './session.js';
 
-let fheInstance: any = null;
+/**
+ * Chain ID of a local Hardhat node running the `@fhevm/hardhat-plugin` mock coprocessor
+ */
+export const HARDHAT_CHAIN_ID = 31337;
+export const HARDHAT_RPC_URL = 'http://127.0.0.1:8545';
+export const SEPOLIA_CHAIN_ID = 11155111;
+
+const logger = getLogger('core');
 
 /**
- * Initialize FHEVM instance for browser environment
+ * Inject the relayer SDK UMD bundle, with its integrity hash when one is given
  */
-async function initializeBrowserFheInstance() {
-  if (typeof window === 'undefined' || !window.ethereum) {
-    throw new Error('Ethereum provider not found. Please install MetaMask or connect a wallet.');
+function injectRelayerSdkScript(url: string, integrity?: string): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const script = document.createElement('script');
+    script.src = url;
+    if (integrity) {
+      script.integrity = integrity;
+      script.crossOrigin = 'anonymous';
+    }
+    script.onload = () => resolve();
+    script.onerror = () => {
+      script.remove();
+      reject(new FhevmAssetError('sdk', url, integrity ? 'script failed to load or did not match its integrity hash' : 'script failed to load'));
+    };
+    document.head.appendChild(script);
+  });
+}
+
+/**
+ * `window.relayerSDK` (injected on demand) or the npm package's ESM build, imported by the app
+ */
+async function loadBrowserRelayerSdk(assets: ResolvedAssetOptions, sdkModule?: () => Promise<RelayerSdk>): Promise<RelayerSdk> {
+  if (assets.source === 'npm') {
+    if (!sdkModule) {
+      throw new FhevmError('INVALID_INPUT', "`assets.source: 'npm'` needs `assets.sdkModule: () => import('@zama-fhe/relayer-sdk/web')`");
+    }
+    try {
+      return await sdkModule();
+    } catch (err) {
+      throw new FhevmAssetError('sdk', '@zama-fhe/relayer-sdk/web', 'module import failed', err);
+    }
   }
 
   // Check for both uppercase and lowercase versions of RelayerSDK
-  let sdk = (window as any).RelayerSDK || (window as any).relayerSDK;
+  const loaded = () => (window as any).RelayerSDK || (window as any).relayerSDK;
+  if (loaded()) return loaded();
 
-  if (!sdk) {
-    throw new Error('RelayerSDK not loaded. Please include the script tag in your HTML:\n<script src="https://cdn.zama.org/relayer-sdk-js/0.3.0-5/relayer-sdk-js.umd.cjs"></script>');
+  await injectRelayerSdkScript(assets.sdkUrl, assets.integrity.sdk);
+  if (!loaded()) throw new FhevmAssetError('sdk', assets.sdkUrl, 'script loaded but did not define window.relayerSDK');
+  return loaded();
+}
+
+/**
+ * Initialize FHEVM instance for browser environment
+ */
+async function initializeBrowserFheInstance(options: FhevmInstanceOptions): Promise<FhevmInstance> {
+  if (typeof window === 'undefined' || !window.ethereum) {
+    throw new FhevmError('NOT_INITIALIZED', 'Ethereum provider not found. Please install MetaMask or connect a wallet.');
   }
 
-  const { initSDK, createInstance, SepoliaConfig } = sdk;
+  const assets = resolveAssetOptions(options.assets);
+  const sdk = await loadBrowserRelayerSdk(assets, options.assets?.sdkModule);
+  const wasm = await initRelayerWasm(sdk, assets);
+  logger.info('Relayer SDK initialized', { source: assets.source, wasm });
+
+  const config = { ...sdk.SepoliaConfig, ...(options.relayerUrl && { relayerUrl: options.relayerUrl }), network: window.ethereum };
 
-  // Try to initialize SDK with CDN first (default behavior)
-  // If it fails (e.g., CORS error), fallback to local WASM files
   try {
-    await initSDK(); // Try CDN first
-    console.log('✅ FHEVM SDK initialized with CDN');
-  } catch (cdnError) {
-    // If CDN fails (usually CORS), fallback to local WASM files
-    console.warn('⚠️ CDN initialization failed, falling back to local WASM files:', cdnError);
-    console.log('🔄 Trying local WASM files from public folder...');
-    await initSDK({
-      tfheParams: '/tfhe_bg.wasm',
-      kmsParams: '/kms_lib_bg.wasm'
-    });
-    console.log('✅ FHEVM SDK initialized with local WASM files');
+    return await sdk.createInstance(config);
+  } catch (err) {
+    logger.error('Browser instance creation failed', { error: err });
+    throw err;
   }
+}
 
-  const config = { ...SepoliaConfig, network: window.ethereum };
+/**
+ * Initialize FHEVM instance inside a dedicated Web Worker (browser only)
+ * The worker loads its own copy of the relayer SDK and WASM; the main thread only keeps a message proxy
+ */
+async function initializeWorkerFheInstance(options: FhevmInstanceOptions): Promise<FhevmInstance> {
+  const assets = resolveAssetOptions(options.assets);
+  if (assets.source === 'npm') {
+    throw new FhevmError('INVALID_INPUT', "The Web Worker loads the relayer SDK script; `assets.source: 'npm'` needs `worker: false`");
+  }
 
   try {
-    fheInstance = await createInstance(config);
-    return fheInstance;
+    return await createWorkerFheInstance({ assets, relayerUrl: options.relayerUrl, rpcUrl: options.rpcUrl });
   } catch (err) {
-    console.error('FHEVM browser instance creation failed:', err);
+    logger.error('Worker instance creation failed', { error: err });
     throw err;
   }
 }
 
+/**
+ * Default Sepolia JSON-RPC endpoint for Node.js when neither `provider` nor `rpcUrl` is given
+ */
+const SEPOLIA_RPC_URL = 'https://sepolia.infura.io/v3/96406da962744120afbe0cf64c8bd7b3';
+
 /**
  * Initialize FHEVM instance for Node.js environment
- * REAL FUNCTIONALITY - uses actual RelayerSDK
+ * REAL FUNCTIONALITY - uses actual RelayerSDK over an EIP-1193 bridge to `provider` (or `rpcUrl`)
  */
-async function initializeNodeFheInstance(rpcUrl?: string) {
+async function initializeNodeFheInstance(options: FhevmInstanceOptions): Promise<FhevmInstance> {
   try {
-    console.log('🚀 Initializing REAL FHEVM Node.js instance...');
+    logger.info('Creating Node.js instance');
     
     // Use eval to prevent webpack from analyzing these imports
     const relayerSDKModule = await eval('import("@zama-fhe/relayer-sdk/node")');
-    const { createInstance, SepoliaConfig, generateKeypair } = relayerSDKModule;
+    const { createInstance, SepoliaConfig } = relayerSDKModule;
     
-    // Create an EIP-1193 compatible provider for Node.js
-    const ethersModule = await eval('import("ethers")');
-    const provider = new ethersModule.ethers.JsonRpcProvider(rpcUrl || 'https://sepolia.infura.io/v3/96406da962744120afbe0cf64c8bd7b3');
-    
-    // Create EIP-1193 provider wrapper
-    const eip1193Provider = {
-      request: async ({ method, params }: { method: string; params: any[] }) => {
-        switch (method) {
-          case 'eth_chainId':
-            return '0xaa36a7'; // Sepolia chain ID
-          case 'eth_accounts':
-            return ['---YOUR-ADDRESS-HERE---'];
-          case 'eth_requestAccounts':
-            return ['---YOUR-ADDRESS-HERE---'];
-          case 'eth_call':
-            // Use the real provider for blockchain calls
-            return await provider.call(params[0]);
-          case 'eth_sendTransaction':
-            // Use the real provider for transactions
-            return await provider.broadcastTransaction(params[0]);
-          default:
-            throw new Error(`Unsupported method: ${method}`);
-        }
-      },
-      on: () => {},
-      removeListener: () => {}
-    };
+    const provider = options.provider ?? new ethers.JsonRpcProvider(options.rpcUrl || SEPOLIA_RPC_URL);
+    const network = createEip1193Bridge(provider, options.signer);
+    const chainId = Number(await network.request({ method: 'eth_chainId' }));
+    if (chainId !== SepoliaConfig.chainId) {
+      throw new FhevmError('CHAIN_MISMATCH', `Provider is on chain ${chainId}, the relayer config is for chain ${SepoliaConfig.chainId}`);
+    }
+    registerHostChain(chainId, toEthersProvider(provider), {
+      acl: SepoliaConfig.aclContractAddress,
+      kmsVerifier: SepoliaConfig.kmsContractAddress,
+    });
     
     const config = { 
       ...SepoliaConfig, 
-      network: eip1193Provider 
+      ...(options.relayerUrl && { relayerUrl: options.relayerUrl }),
+      network
     };
     
-    fheInstance = await createInstance(config);
-    console.log('✅ REAL FHEVM Node.js instance created successfully!');
-    return fheInstance;
+    const instance = await createInstance(config);
+    logger.info('Node.js instance created', { chainId });
+    return instance;
   } catch (err) {
-    console.error('FHEVM Node.js instance creation failed:', err);
+    logger.error('Node.js instance creation failed', { error: err });
     throw err;
   }
 }
 
 /**
- * Initialize FHEVM instance - Environment-aware
- * MAINTAINS BACKWARD COMPATIBILITY
+ * Initialize an in-process mock instance against a local Hardhat node (browser or Node.js)
+ * The node's mock coprocessor stands in for the relayer, so no network access or WASM is needed
  */
-export async function initializeFheInstance(options?: { rpcUrl?: string }) {
-  // Detect environment
-  if (typeof window !== 'undefined' && window.ethereum) {
+async function initializeMockFheInstance(options: FhevmInstanceOptions): Promise<FhevmInstance> {
+  const rpcUrl = options.provider ? undefined : options.rpcUrl ?? HARDHAT_RPC_URL;
+  try {
+    // Optional peer dependency - only mock mode needs it
+    const { MockFhevmInstance, contracts, relayer } = await import('@fhevm/mock-utils').catch((err) => {
+      throw new FhevmError('NOT_INITIALIZED', 'Mock mode needs the optional `@fhevm/mock-utils` package: npm install @fhevm/mock-utils', { cause: err });
+    });
+    const provider = options.provider ? toEthersProvider(options.provider) : new ethers.JsonRpcProvider(rpcUrl);
+    // Mock relayer requests are raw JSON-RPC calls to the node
+    const relayerProvider = createEip1193Bridge(options.provider ?? provider);
+
+    // Served by `npx hardhat node` (or the in-process Hardhat network) when @fhevm/hardhat-plugin is loaded
+    const metadata = await relayer.requestRelayerMetadata(relayerProvider);
+    const aclContractAddress = metadata.ACLAddress as `0x${string}`;
+    const kmsContractAddress = metadata.KMSVerifierAddress as `0x${string}`;
+
+    registerHostChain(metadata.chainId, provider, { acl: aclContractAddress, kmsVerifier: kmsContractAddress });
+
+    const repository = await contracts.FhevmContractsRepository.create(provider, {
+      aclContractAddress,
+      kmsContractAddress,
+    });
+
+    const instance = await MockFhevmInstance.create(
+      relayerProvider,
+      provider,
+      {
+        verifyingContractAddressDecryption: repository.kmsVerifier.gatewayDecryptionAddress,
+        verifyingContractAddressInputVerification: repository.inputVerifier.gatewayInputVerificationAddress,
+        kmsContractAddress,
+        inputVerifierContractAddress: metadata.InputVerifierAddress as `0x${string}`,
+        aclContractAddress,
+        chainId: metadata.chainId,
+        gatewayChainId: metadata.gatewayChainId,
+      },
+      {
+        inputVerifierProperties: repository.inputVerifier.inputVerifierProperties,
+        kmsVerifierProperties: repository.kmsVerifier.kmsVerifierProperties,
+      }
+    );
+    logger.info('Mock instance created', { rpcUrl });
+    return instance;
+  } catch (err) {
+    logger.error('Mock instance creation failed - is `npx hardhat node` running?', { rpcUrl, error: err });
+    throw err;
+  }
+}
+
+async function createFheInstance(chainId: number, options: FhevmInstanceOptions): Promise<FhevmInstance> {
+  if (options.mock || chainId === HARDHAT_CHAIN_ID) {
+    return initializeMockFheInstance(options);
+  }
+  if (chainId !== SEPOLIA_CHAIN_ID) {
+    throw new FhevmError('CHAIN_MISMATCH', `No FHEVM relayer configuration for chain ${chainId}`);
+  }
+
+  // ACL pre-flight reads go through the wallet in the browser; Node.js instances register their own provider
+  if (!options.provider && typeof window !== 'undefined' && window.ethereum) {
+    registerHostChain(chainId, new ethers.BrowserProvider(window.ethereum));
+  }
+
+  // Detect environment - an explicit provider always goes through the EIP-1193 bridge
+  if (options.worker && !options.provider && isWorkerSupported()) {
+    return initializeWorkerFheInstance(options);
+  }
+  if (!options.provider && typeof window !== 'undefined' && window.ethereum) {
     // Browser environment - use existing working code
-    return initializeBrowserFheInstance();
+    return initializeBrowserFheInstance(options);
   } else {
     // Node.js environment - use new functionality
-    return initializeNodeFheInstance(options?.rpcUrl);
+    return initializeNodeFheInstance(options);
+  }
+}
+
+// Instance registry, keyed by chain ID plus relayer config
+const instances = new Map<string, { chainId: number; instance: Promise<FhevmInstance> }>();
+let requestedKey: string | null = null;
+let activeInstance: FhevmInstance | null = null;
+let activeChainId: number | null = null;
+
+// Providers and signers are told apart by identity
+const objectIds = new WeakMap<object, number>();
+let nextObjectId = 1;
+
+function objectId(value: object | undefined): string {
+  if (!value) return '';
+  if (!objectIds.has(value)) objectIds.set(value, nextObjectId++);
+  return `#${objectIds.get(value)}`;
+}
+
+function instanceKey(chainId: number, options: FhevmInstanceOptions): string {
+  return [
+    chainId,
+    options.mock ? 'mock' : options.worker ? 'worker' : 'relayer',
+    options.rpcUrl ?? '',
+    options.relayerUrl ?? '',
+    objectId(options.provider),
+    objectId(options.signer),
+    JSON.stringify(options.assets ?? {}),
+  ].join('|');
+}
+
+/**
+ * Get the instance for `chainId`, creating it on first use, and make it the active instance
+ * used by the encrypt/decrypt helpers. Concurrent calls share one creation.
+ */
+export async function getInstance(chainId: number, options: FhevmInstanceOptions = {}): Promise<FhevmInstance> {
+  const key = instanceKey(chainId, options);
+  requestedKey = key;
+
+  let entry = instances.get(key);
+  if (!entry) {
+    const startedAt = Date.now();
+    const created = {
+      chainId,
+      instance: createFheInstance(chainId, options).then(
+        (instance) => {
+          const mode = options.mock || chainId === HARDHAT_CHAIN_ID ? 'mock' : instance instanceof WorkerFhevmInstance ? 'worker' : 'relayer';
+          emitFhevmEvent('initialized', { chainId, mode, durationMs: Date.now() - startedAt });
+          return instance;
+        },
+        (err) => {
+          throw toFhevmError(err, 'RELAYER_UNAVAILABLE');
+        }
+      ),
+    };
+    instances.set(key, created);
+    // Evict failed creations so the next call retries
+    created.instance.catch(() => {
+      if (instances.get(key) === created) instances.delete(key);
+    });
+    entry = created;
+  }
+
+  const instance = await entry.instance;
+  // A later request for another chain wins
+  if (requestedKey === key) {
+    const previousChainId = activeChainId;
+    activeInstance = instance;
+    activeChainId = chainId;
+    if (previousChainId !== chainId) emitFhevmEvent('chainChanged', { previousChainId, chainId });
   }
+  return instance;
+}
+
+/**
+ * Drop cached instances for `chainId` (every chain when omitted) so the next `getInstance` recreates them
+ */
+export function disposeInstance(chainId?: number): void {
+  for (const [key, entry] of instances) {
+    if (chainId === undefined || entry.chainId === chainId) {
+      instances.delete(key);
+      // Worker-hosted instances hold a thread and their own WASM heap
+      entry.instance.then((instance) => (instance as { terminate?: () => void }).terminate?.(), () => {});
+    }
+  }
+  if (chainId === undefined || activeChainId === chainId) {
+    activeInstance = null;
+    activeChainId = null;
+    requestedKey = null;
+    // The next instance may talk to another relayer
+    getRelayerTransport().reset();
+  }
+}
+
+/**
+ * Initialize FHEVM instance - Environment-aware
+ * MAINTAINS BACKWARD COMPATIBILITY
+ * Pass `mock: true` to use the local Hardhat mock coprocessor instead of the Sepolia relayer.
+ * Without `chainId`, the chain is read from `provider`, the injected wallet or `rpcUrl`, in that order
+ * (Sepolia in Node.js when none is given).
+ */
+export async function initializeFheInstance(options: FhevmInstanceOptions & { chainId?: number } = {}): Promise<FhevmInstance> {
+  const { chainId, ...instanceOptions } = options;
+
+  if (chainId !== undefined) return getInstance(chainId, instanceOptions);
+  if (options.mock) return getInstance(HARDHAT_CHAIN_ID, instanceOptions);
+  if (options.provider) return getInstance(await getProviderChainId(options.provider), instanceOptions);
+  if (typeof window !== 'undefined' && window.ethereum) {
+    const walletChainId = await window.ethereum.request({ method: 'eth_chainId' });
+    return getInstance(Number(walletChainId), instanceOptions);
+  }
+  if (options.rpcUrl) {
+    return getInstance(await getProviderChainId(new ethers.JsonRpcProvider(options.rpcUrl)), instanceOptions);
+  }
+  return getInstance(SEPOLIA_CHAIN_ID, instanceOptions);
+}
+
+export function getFheInstance(): FhevmInstance | null {
+  return activeInstance;
+}
+
+/**
+ * Chain ID of the active instance, or null before initialization
+ */
+export function getFheInstanceChainId(): number | null {
+  return activeChainId;
+}
+
+/**
+ * Reuse the stored EIP-712 permits for these contracts, asking the wallet to sign only for contracts none covers
+ */
+async function getUserDecryptionSessions(fhe: FhevmInstance, signer: any, contractAddresses: string[]): Promise<DecryptionSession[]> {
+  const chainId = getFheInstanceChainId();
+  if (chainId === null) throw new FhevmError('NOT_INITIALIZED', 'FHE instance not initialized. Call initializeFheInstance() first.');
+  return getDecryptionSessionManager().getSessions(fhe, chainId, signer, contractAddresses);
 }
 
-export function getFheInstance() {
-  return fheInstance;
+function userDecryptWithSession(
+  fhe: FhevmInstance,
+  handleContractPairs: HandleContractPair[],
+  session: DecryptionSession,
+  options: RelayerCallOptions
+) {
+  return getRelayerTransport().call('userDecrypt', () => fhe.userDecrypt(
+    handleContractPairs,
+    session.privateKey,
+    session.publicKey,
+    session.signature.replace("0x", ""),
+    session.contractAddresses,
+    session.userAddress,
+    session.startTimestamp,
+    session.durationDays
+  ), { ...options, idempotent: true });
 }
 
 /**
  * Decrypt a single encrypted value using EIP-712 user decryption (matches showcase API)
  */
-export async function decryptValue(encryptedBytes: string, contractAddress: string, signer: any): Promise<number> {
+export async function decryptValue(
+  encryptedBytes: string,
+  contractAddress: string,
+  signer: any,
+  options: RelayerCallOptions = {}
+): Promise<number> {
   const fhe = getFheInstance();
-  if (!fhe) throw new Error('FHE instance not initialized. Call initializeFheInstance() first.');
+  if (!fhe) throw new FhevmError('NOT_INITIALIZED', 'FHE instance not initialized. Call initializeFheInstance() first.');
 
-  try {
-    console.log('🔐 Using EIP-712 user decryption for handle:', encryptedBytes);
+  validateHandle(encryptedBytes, { chainId: getFheInstanceChainId() });
+
+  return trackFhevmOperation('decrypt', { kind: 'user', handles: 1 }, async () => {
+    logger.debug('User decryption', { handle: encryptedBytes, contractAddress });
     
-    // Use EIP-712 user decryption instead of public decryption
-    const keypair = fhe.generateKeypair();
     const handleContractPairs = [
       {
         handle: encryptedBytes,
         contractAddress: contractAddress,
       },
     ];
-    
-    const startTimeStamp = Math.floor(Date.now() / 1000).toString();
-    const durationDays = "10";
-    const contractAddresses = [contractAddress];
-
-    const eip712 = fhe.createEIP712(
-      keypair.publicKey,
-      contractAddresses,
-      startTimeStamp,
-      durationDays
-    );
+    // Fail before the wallet is asked to sign a permit the relayer would reject
+    await assertUserDecryptAllowed(handleContractPairs, await signer.getAddress());
+    const [session] = await getUserDecryptionSessions(fhe, signer, [contractAddress]);
+    const result = await userDecryptWithSession(fhe, handleContractPairs, session, options);
 
-    const signature = await signer.signTypedData(
-      eip712.domain,
-      {
-        UserDecryptRequestVerification: eip712.types.UserDecryptRequestVerification,
-      },
-      eip712.message
-    );
+    return Number(result[encryptedBytes]);
+  });
+}
 
-    const result = await fhe.userDecrypt(
-      handleContractPairs,
-      keypair.privateKey,
-      keypair.publicKey,
-      signature.replace("0x", ""),
-      contractAddresses,
-      await signer.getAddress(),
-      startTimeStamp,
-      durationDays
-    );
+/**
+ * The relayer decrypts at most this many encrypted bits per user-decryption request
+ */
+export const MAX_USER_DECRYPT_BITS = 2048;
 
-    return Number(result[encryptedBytes]);
-  } catch (error: any) {
-    // Check for relayer/network error
-    if (error?.message?.includes('Failed to fetch') || error?.message?.includes('NetworkError')) {
-      throw new Error('Decryption service is temporarily unavailable. Please try again later.');
-    }
-    throw error;
+function clearValueToBigInt(value: ClearValueType): bigint {
+  if (typeof value === 'boolean') return value ? 1n : 0n;
+  return BigInt(value);
+}
+
+/**
+ * Key of a `batchDecryptHandles` result: the lowercase hex handle and contract address
+ */
+export function decryptionResultKey(handle: string | Uint8Array, contractAddress: string): string {
+  return `${parseHandle(handle).handle}:${contractAddress.toLowerCase()}`;
+}
+
+/**
+ * Decrypt handles from several contracts, under one EIP-712 permit per `MAX_SESSION_CONTRACTS` contracts.
+ * Requests are split to stay under the relayer's per-request bit limit; results are keyed by `decryptionResultKey`.
+ */
+export async function batchDecryptHandles(
+  handleContractPairs: HandleContractPair[],
+  signer: any,
+  options: RelayerCallOptions = {}
+): Promise<Record<string, bigint>> {
+  const fhe = getFheInstance();
+  if (!fhe) throw new FhevmError('NOT_INITIALIZED', 'FHE instance not initialized. Call initializeFheInstance() first.');
+
+  const chainId = getFheInstanceChainId();
+  const pairs = new Map<string, HandleContractPair & { bits: number }>();
+  for (const pair of handleContractPairs) {
+    if (!ethers.isAddress(pair.contractAddress)) throw new FhevmInputError(`Invalid contract address ${pair.contractAddress}`);
+    const { handle, encryptedBits } = validateHandle(pair.handle, { chainId });
+    const contractAddress = ethers.getAddress(pair.contractAddress);
+    pairs.set(decryptionResultKey(handle, contractAddress), { handle, contractAddress, bits: encryptedBits });
   }
+  if (pairs.size === 0) return {};
+
+  return trackFhevmOperation('decrypt', { kind: 'user', handles: pairs.size }, async () => {
+    await assertUserDecryptAllowed([...pairs.values()], await signer.getAddress());
+    const contractAddresses = [...new Set([...pairs.values()].map((pair) => pair.contractAddress))];
+    const sessions = await getUserDecryptionSessions(fhe, signer, contractAddresses);
+
+    // Each request goes out under the permit covering its contracts
+    const requests: { session: DecryptionSession; pairs: HandleContractPair[] }[] = [];
+    for (const session of sessions) {
+      let request: HandleContractPair[] = [];
+      let requestBits = 0;
+      for (const { bits, ...pair } of pairs.values()) {
+        if (!session.contractAddresses.includes(pair.contractAddress)) continue;
+        if (requestBits + bits > MAX_USER_DECRYPT_BITS) {
+          requests.push({ session, pairs: request });
+          request = [];
+          requestBits = 0;
+        }
+        request.push(pair);
+        requestBits += bits;
+      }
+      if (request.length > 0) requests.push({ session, pairs: request });
+    }
+    logger.debug('Batch user decryption', { handles: pairs.size, permits: sessions.length, requests: requests.length });
+
+    const decryptedValues: Record<string, bigint> = {};
+    for (const request of requests) {
+      const result = await userDecryptWithSession(fhe, request.pairs, request.session, options);
+      for (const { handle, contractAddress } of request.pairs) {
+        const value = result[handle as string];
+        if (value === undefined) throw new FhevmError('INVALID_RESPONSE', `Relayer returned no clear value for handle ${handle}`);
+        decryptedValues[decryptionResultKey(handle, contractAddress)] = clearValueToBigInt(value);
+      }
+    }
+
+    return decryptedValues;
+  });
 }
 
 /**
- * Batch decrypt multiple encrypted values using EIP-712 user decryption
+ * Batch decrypt multiple encrypted values of one contract using EIP-712 user decryption
  */
 export async function batchDecryptValues(
   handles: string[], 
   contractAddress: string, 
-  signer: any
+  signer: any,
+  options: RelayerCallOptions = {}
 ): Promise<Record<string, number>> {
-  const fhe = getFheInstance();
-  if (!fhe) throw new Error('FHE instance not initialized. Call initializeFheInstance() first.');
-
-  try {
-    console.log('🔐 Using EIP-712 batch user decryption for handles:', handles);
-    
-    const keypair = fhe.generateKeypair();
-    const handleContractPairs = handles.map(handle => ({
-      handle,
-      contractAddress: contractAddress,
-    }));
-    
-    const startTimeStamp = Math.floor(Date.now() / 1000).toString();
-    const durationDays = "10";
-    const contractAddresses = [contractAddress];
-
-    const eip712 = fhe.createEIP712(
-      keypair.publicKey,
-      contractAddresses,
-      startTimeStamp,
-      durationDays
-    );
-
-    const signature = await signer.signTypedData(
-      eip712.domain,
-      {
-        UserDecryptRequestVerification: eip712.types.UserDecryptRequestVerification,
-      },
-      eip712.message
-    );
+  const results = await batchDecryptHandles(
+    handles.map(handle => ({ handle, contractAddress })),
+    signer,
+    options
+  );
+
+  // Convert result to numbers
+  const decryptedValues: Record<string, number> = {};
+  for (const handle of handles) {
+    decryptedValues[handle] = Number(results[decryptionResultKey(handle, contractAddress)]);
+  }
 
-    const result = await fhe.userDecrypt(
-      handleContractPairs,
-      keypair.privateKey,
-      keypair.publicKey,
-      signature.replace("0x", ""),
-      contractAddresses,
-      await signer.getAddress(),
-      startTimeStamp,
-      durationDays
-    );
+  return decryptedValues;
+}
 
-    // Convert result to numbers
-    const decryptedValues: Record<string, number> = {};
-    for (const handle of handles) {
-      decryptedValues[handle] = Number(result[handle]);
+const UINT_BITS = {
+  euint8: 8,
+  euint16: 16,
+  euint32: 32,
+  euint64: 64,
+  euint128: 128,
+  euint256: 256,
+} as const;
+
+function addEncryptedValue(input: RelayerEncryptedInput, entry: EncryptedValue, index: number) {
+  if (entry.type === 'ebool') {
+    const { value } = entry;
+    if (typeof value !== 'boolean' && value !== 0 && value !== 1 && value !== 0n && value !== 1n) {
+      throw new FhevmInputError('ebool expects a boolean, 0 or 1', index);
     }
+    input.addBool(value);
+    return;
+  }
 
-    return decryptedValues;
-  } catch (error: any) {
-    if (error?.message?.includes('Failed to fetch') || error?.message?.includes('NetworkError')) {
-      throw new Error('Decryption service is temporarily unavailable. Please try again later.');
+  if (entry.type === 'eaddress') {
+    if (!ethers.isAddress(entry.value)) {
+      throw new FhevmInputError('eaddress expects a 20-byte hex address', index);
     }
-    throw error;
+    input.addAddress(ethers.getAddress(entry.value));
+    return;
+  }
+
+  const bits = UINT_BITS[entry.type];
+  if (bits === undefined) {
+    throw new FhevmInputError(`Unsupported encrypted type "${(entry as { type: string }).type}"`, index);
+  }
+  if (typeof entry.value !== 'number' && typeof entry.value !== 'bigint') {
+    throw new FhevmInputError(`${entry.type} expects a number or bigint, got ${typeof entry.value}`, index);
+  }
+  if (typeof entry.value === 'number' && !Number.isSafeInteger(entry.value)) {
+    throw new FhevmInputError(`${entry.type} expects an integer (use bigint above 2^53)`, index);
   }
+  const value = BigInt(entry.value);
+  if (value < 0n || value >= 1n << BigInt(bits)) {
+    throw new FhevmInputError(`${entry.type} value out of range`, index);
+  }
+
+  switch (entry.type) {
+    case 'euint8': input.add8(value); break;
+    case 'euint16': input.add16(value); break;
+    case 'euint32': input.add32(value); break;
+    case 'euint64': input.add64(value); break;
+    case 'euint128': input.add128(value); break;
+    case 'euint256': input.add256(value); break;
+  }
+}
+
+/**
+ * Encrypt several typed values in one input: one handle per value, in order, plus a single shared `inputProof`.
+ * Pass the handles as the contract's `externalEuintXX`/`externalEbool`/`externalEaddress` params and the proof once.
+ */
+export async function createEncryptedInputs(
+  contractAddress: string,
+  userAddress: string,
+  values: EncryptedValue[],
+  options: RelayerCallOptions = {}
+): Promise<EncryptedInputs> {
+  const fhe = getFheInstance();
+  if (!fhe) throw new FhevmError('NOT_INITIALIZED', 'FHE instance not initialized. Call initializeFheInstance() first.');
+
+  if (!ethers.isAddress(contractAddress)) throw new FhevmInputError('Invalid contract address');
+  if (!ethers.isAddress(userAddress)) throw new FhevmInputError('Invalid user address');
+  if (values.length === 0) throw new FhevmInputError('At least one value is required');
+
+  const input = fhe.createEncryptedInput(contractAddress, userAddress);
+  values.forEach((entry, index) => addEncryptedValue(input, entry, index));
+
+  return trackFhevmOperation('encrypt', { contractAddress, values: values.length }, async () => {
+    // Not retried: a second encrypt produces a different ciphertext and proof
+    const result = await getRelayerTransport().call('encrypt', () => input.encrypt(), options);
+    if (!result || !Array.isArray(result.handles) || result.handles.length !== values.length || !result.inputProof) {
+      throw new FhevmError('INVALID_RESPONSE', `Relayer returned an invalid encryption result (expected ${values.length} handles)`);
+    }
+
+    return {
+      handles: result.handles.map(handle => ethers.hexlify(handle)),
+      inputProof: ethers.hexlify(result.inputProof),
+    };
+  });
 }
 
 /**
- * Encrypt values using FHEVM
- * 
- * 📝 BIT SIZE SUPPORT:
- * FHEVM supports different bit sizes for encrypted values. If your contract uses a different bit size
- * than the default 32-bit, you can use the appropriate method:
- * - add8(value)   - for 8-bit values (0-255)
- * - add16(value) - for 16-bit values (0-65535) 
- * - add32(value) - for 32-bit values (0-4294967295) - DEFAULT
- * - add64(value) - for 64-bit values (0-18446744073709551615)
- * - add128(value) - for 128-bit values
- * - add256(value) - for 256-bit values
- * 
- * Example: If your contract expects 8-bit values, replace add32() with add8()
+ * Encrypt a list of 8-bit values
+ * @deprecated Use `createEncryptedInputs` with explicit types
  */
 export async function encryptValue(
   contractAddress: string,
   address: string,
   plainDigits: number[]
-) {
-  const relayer = getFheInstance();
-  if (!relayer) throw new Error("FHEVM not initialized");
-
-  const inputHandle = relayer.createEncryptedInput(contractAddress, address);
-  for (const d of plainDigits) {
-    inputHandle.add8(d);
-  }
-  
-  const ciphertextBlob = await inputHandle.encrypt();
-  return ciphertextBlob;
+): Promise<EncryptedInputs> {
+  return createEncryptedInputs(
+    contractAddress,
+    address,
+    plainDigits.map(value => ({ type: 'euint8' as const, value }))
+  );
 }
 
 /**
  * Create encrypted input for contract interaction (matches showcase API)
+ * Encrypts a single euint32 - use `createEncryptedInputs` for other types or several values
  */
-export async function createEncryptedInput(contractAddress: string, userAddress: string, value: number) {
-  const fhe = getFheInstance();
-  if (!fhe) throw new Error('FHE instance not initialized. Call initializeFheInstance() first.');
-
-  console.log(`🔐 Creating encrypted input for contract ${contractAddress}, user ${userAddress}, value ${value}`);
-  
-  const inputHandle = fhe.createEncryptedInput(contractAddress, userAddress);
-  inputHandle.add32(value);
-  const result = await inputHandle.encrypt();
-  
-  console.log('✅ Encrypted input created successfully');
-  console.log('🔍 Encrypted result structure:', result);
-  
-  // The FHEVM SDK returns an object with handles and inputProof
-  // We need to extract the correct values for the contract
-  if (result && typeof result === 'object') {
-    // If result has handles array, use the first handle
-    if (result.handles && Array.isArray(result.handles) && result.handles.length > 0) {
-      return {
-        encryptedData: result.handles[0],
-        proof: result.inputProof
-      };
-    }
-    // If result has encryptedData and proof properties
-    else if (result.encryptedData && result.proof) {
-      return {
-        encryptedData: result.encryptedData,
-        proof: result.proof
-      };
-    }
-    // Fallback: use the result as-is
-    else {
-      return {
-        encryptedData: result,
-        proof: result
-      };
-    }
-  }
-  
-  // If result is not an object, use it directly
+export async function createEncryptedInput(
+  contractAddress: string,
+  userAddress: string,
+  value: number,
+  options: RelayerCallOptions = {}
+) {
+  logger.debug('Creating encrypted input', { contractAddress, userAddress, type: 'euint32' });
+
+  const { handles, inputProof } = await createEncryptedInputs(contractAddress, userAddress, [
+    { type: 'euint32', value },
+  ], options);
+
   return {
-    encryptedData: result,
-    proof: result
+    encryptedData: handles[0],
+    proof: inputProof
   };
 }
 
-export async function publicDecryptV09(handles: string[]): Promise<{
-  clearValues: { [handle: string]: bigint };
-  abiEncodedClearValues: string;
-  decryptionProof: string;
-}> {
-  const fhe = getFheInstance();
-  if (!fhe) throw new Error('FHE instance not initialized. Call initializeFheInstance() first.');
+function toAbiValue(abiType: string, handle: string, clearValue: ClearValueType | undefined): boolean | bigint | string {
+  if (clearValue === undefined) {
+    throw new FhevmError('INVALID_RESPONSE', `Missing clear value for handle ${handle}`);
+  }
 
-  try {
-    console.log('🔐 Starting v0.9 public decryption for handles:', handles);
-    
-    if (typeof fhe.publicDecrypt === 'function') {
-      const result = await fhe.publicDecrypt(handles);
-      
-      if (result && result.clearValues && result.abiEncodedClearValues && result.decryptionProof) {
-        return result;
-      } else {
-        throw new Error('Invalid publicDecrypt result structure');
-      }
-    } else {
-      console.warn('⚠️ Using fallback decryption for v0.9 compatibility');
-      
-      const clearValues: { [handle: string]: bigint } = {};
-      let abiEncodedClearValues = '0x';
-      const decryptionProof = '0x';
-      
-      for (const handle of handles) {
-        if (typeof handle === "string" && handle.startsWith("0x") && handle.length === 66) {
-          const values = await fhe.publicDecrypt([handle]);
-          const clearValue = BigInt(values[handle]);
-          clearValues[handle] = clearValue;
-        } else {
-          throw new Error('Invalid ciphertext handle for decryption');
-        }
-      }
+  if (abiType === 'bool') {
+    if (typeof clearValue === 'boolean') return clearValue;
+    const value = BigInt(clearValue);
+    if (value !== 0n && value !== 1n) throw new FhevmError('INVALID_RESPONSE', `Clear value for bool handle ${handle} is not 0 or 1`);
+    return value === 1n;
+  }
+
+  if (abiType === 'address') {
+    const value = typeof clearValue === 'bigint' ? ethers.toBeHex(clearValue, 20) : String(clearValue);
+    if (!ethers.isAddress(value)) throw new FhevmError('INVALID_RESPONSE', `Clear value for address handle ${handle} is not an address`);
+    return ethers.getAddress(value);
+  }
+
+  if (typeof clearValue === 'boolean') {
+    throw new FhevmError('INVALID_RESPONSE', `Clear value for ${abiType} handle ${handle} is a boolean`);
+  }
+  const value = BigInt(clearValue);
+  const bits = BigInt(abiType.slice(4));
+  if (value < 0n || value >= 1n << bits) {
+    throw new FhevmError('INVALID_RESPONSE', `Clear value for ${abiType} handle ${handle} is out of range`);
+  }
+  return value;
+}
 
-      if (handles.length === 1) {
+/**
+ * ABI-encode clear values in handle order, typed by each handle's FHE type, as `FHE.checkSignatures` expects them
+ */
+export function encodeClearValues(handles: string[], clearValues: Record<string, ClearValueType>): `0x${string}` {
+  const types = handles.map(getHandleAbiType);
+  const values = handles.map((handle, i) => toAbiValue(types[i], handle, clearValues[handle] ?? clearValues[handle.toLowerCase()]));
+  return ethers.AbiCoder.defaultAbiCoder().encode(types, values) as `0x${string}`;
+}
 
-        abiEncodedClearValues = ethers.AbiCoder.defaultAbiCoder().encode(
-          ['uint32'], 
-          [Number(clearValues[handles[0]])]
-        );
-      } else {
+export async function publicDecryptV09(handles: string[], options: RelayerCallOptions = {}): Promise<PublicDecryptResults> {
+  const fhe = getFheInstance();
+  if (!fhe) throw new FhevmError('NOT_INITIALIZED', 'FHE instance not initialized. Call initializeFheInstance() first.');
 
-        const values = handles.map(handle => Number(clearValues[handle]));
-        abiEncodedClearValues = ethers.AbiCoder.defaultAbiCoder().encode(
-          Array(values.length).fill('uint32'), 
-          values
-        );
-      }
-      
-      return {
-        clearValues,
-        abiEncodedClearValues,
-        decryptionProof
-      };
+  // Fail on malformed, unsupported or foreign-chain handles before calling the relayer
+  const chainId = getFheInstanceChainId();
+  handles.forEach((handle) => validateHandle(handle, { chainId }));
+
+  return trackFhevmOperation('decrypt', { kind: 'public', handles: handles.length }, async () => {
+    logger.debug('Public decryption', { handles });
+    await assertPubliclyDecryptable(handles);
+
+    const result = await getRelayerTransport().call('publicDecrypt', () => fhe.publicDecrypt(handles), {
+      ...options,
+      idempotent: true,
+    });
+    if (!result || !result.clearValues) {
+      throw new FhevmError('INVALID_RESPONSE', 'Invalid publicDecrypt result structure');
     }
-  } catch (error: any) {
-    if (error?.message?.includes('Failed to fetch') || error?.message?.includes('NetworkError')) {
-      throw new Error('Decryption service is temporarily unavailable. Please try again later.');
+    if (!result.decryptionProof || result.decryptionProof === '0x') {
+      throw new FhevmError('PROOF_INVALID', 'Relayer returned no decryption proof; the clear values cannot be verified on-chain');
     }
-    throw error;
-  }
+
+    return {
+      clearValues: result.clearValues,
+      abiEncodedClearValues: result.abiEncodedClearValues || encodeClearValues(handles, result.clearValues),
+      decryptionProof: result.decryptionProof,
+    };
+  });
 }
 
 
@@ -0,0 +1,109 @@
+/**
+ * FHEVM Worker Entry - Universal SDK
+ * Runs inside the dedicated module worker started by `createWorkerFheInstance`: loads the relayer SDK
+ * and its WASM, then answers the proxy's messages one request id at a time
+ */
+
+import type { FhevmInstance } from '@zama-fhe/relayer-sdk/web';
+import { fetchAsset, initRelayerWasm } from './assets.js';
+import type { RelayerSdk, ResolvedAssetOptions } from './assets.js';
+import { FhevmAssetError, FhevmError } from './errors.js';
+import type { WorkerInitOptions, WorkerRequest, WorkerResponse, WorkerStage } from './worker.js';
+
+interface WorkerScope {
+  onmessage: ((event: MessageEvent<WorkerRequest>) => void) | null;
+  postMessage(message: WorkerResponse, transfer?: Transferable[]): void;
+  relayerSDK?: RelayerSdk;
+  RelayerSDK?: RelayerSdk;
+  window?: unknown;
+}
+
+const scope = self as unknown as WorkerScope;
+
+// The UMD build assigns `window.TFHE` and `window.TKMS` while initializing its WASM
+scope.window ??= scope;
+
+let instance: FhevmInstance | null = null;
+
+function progress(id: number, stage: WorkerStage) {
+  scope.postMessage({ id, type: 'progress', stage });
+}
+
+/**
+ * Module workers have no `importScripts`: the UMD script is fetched (and checked, when hashed) and
+ * imported from a blob URL, where it defines `globalThis.relayerSDK`
+ */
+async function importRelayerSdk(assets: ResolvedAssetOptions): Promise<RelayerSdk> {
+  const { sdkUrl, integrity } = assets;
+  const source = await fetchAsset('sdk', sdkUrl, integrity.sdk);
+  const blobUrl = URL.createObjectURL(new Blob([source], { type: 'text/javascript' }));
+  try {
+    await import(/* @vite-ignore */ blobUrl);
+  } catch (err) {
+    throw new FhevmAssetError('sdk', sdkUrl, `script failed to run (${err instanceof Error ? err.message : String(err)})`, err);
+  } finally {
+    URL.revokeObjectURL(blobUrl);
+  }
+
+  const sdk = scope.relayerSDK || scope.RelayerSDK;
+  if (!sdk) throw new FhevmAssetError('sdk', sdkUrl, 'script loaded but did not define relayerSDK');
+  return sdk;
+}
+
+async function init(id: number, options: WorkerInitOptions) {
+  progress(id, 'loading-sdk');
+  const sdk = await importRelayerSdk(options.assets);
+
+  progress(id, 'loading-wasm');
+  await initRelayerWasm(sdk, options.assets);
+
+  progress(id, 'creating-instance');
+  instance = await sdk.createInstance({
+    ...sdk.SepoliaConfig,
+    ...(options.relayerUrl && { relayerUrl: options.relayerUrl }),
+    ...(options.rpcUrl && { network: options.rpcUrl }),
+  });
+}
+
+async function dispatch(request: WorkerRequest): Promise<{ result: unknown; transfer?: Transferable[] }> {
+  if (request.op === 'init') {
+    await init(request.id, request.args[0]);
+    return { result: null };
+  }
+  if (!instance) throw new Error('FHE instance not initialized in the worker');
+
+  switch (request.op) {
+    case 'encrypt': {
+      const [contractAddress, userAddress, values] = request.args;
+      progress(request.id, 'encrypting');
+      const input = instance.createEncryptedInput(contractAddress, userAddress);
+      for (const [method, value] of values) (input[method] as (value: unknown) => unknown)(value);
+      const result = await input.encrypt();
+      // Handles may be views into one buffer - each buffer can only be transferred once
+      const buffers = new Set([...result.handles, result.inputProof].map((bytes) => bytes.buffer as ArrayBuffer));
+      return { result, transfer: [...buffers] };
+    }
+    case 'publicDecrypt':
+      progress(request.id, 'decrypting');
+      return { result: await instance.publicDecrypt(...request.args) };
+    case 'userDecrypt':
+      progress(request.id, 'decrypting');
+      return { result: await instance.userDecrypt(...request.args) };
+    case 'generateKeypair':
+      return { result: instance.generateKeypair() };
+    case 'createEIP712':
+      return { result: instance.createEIP712(...request.args) };
+  }
+}
+
+scope.onmessage = async (event) => {
+  const request = event.data;
+  try {
+    const { result, transfer = [] } = await dispatch(request);
+    scope.postMessage({ id: request.id, type: 'result', result }, transfer);
+  } catch (err) {
+    const error = err instanceof Error ? err : new Error(String(err));
+    const code = err instanceof FhevmError ? err.code : undefined;
+    scope.postMessage({ id: request.id, type: 'error', error: { name: error.name, message: error.message, code } });
+  }
+};
@@ -0,0 +1,120 @@
+/**
+ * FHEVM Handles - Universal SDK
+ * Decodes the 32-byte ciphertext handle layout and validates handles before they reach the relayer:
+ * hash[0..20] | index[21] | chainId[22..29] | FHE type[30] | version[31]
+ */
+
+import { ethers } from 'ethers';
+import { FhevmError } from './errors.js';
+import type { EncryptedValueType } from './types.js';
+
+/** Handle layout version produced by the current FHEVM executor */
+export const HANDLE_VERSION = 0;
+
+/** Index byte of handles produced by on-chain computation rather than an encrypted input */
+const COMPUTED_INDEX = 0xff;
+
+export type HandleAbiType = 'bool' | 'uint8' | 'uint16' | 'uint32' | 'uint64' | 'uint128' | 'uint256' | 'address';
+
+/**
+ * Per FHE type byte: the Solidity type, the type its clear value ABI-encodes to for `FHE.checkSignatures`,
+ * and the encrypted bit width the relayer counts against its per-request limit
+ */
+const FHE_TYPES: Record<number, { type: EncryptedValueType; abiType: HandleAbiType; encryptedBits: number }> = {
+  0: { type: 'ebool', abiType: 'bool', encryptedBits: 2 },
+  2: { type: 'euint8', abiType: 'uint8', encryptedBits: 8 },
+  3: { type: 'euint16', abiType: 'uint16', encryptedBits: 16 },
+  4: { type: 'euint32', abiType: 'uint32', encryptedBits: 32 },
+  5: { type: 'euint64', abiType: 'uint64', encryptedBits: 64 },
+  6: { type: 'euint128', abiType: 'uint128', encryptedBits: 128 },
+  7: { type: 'eaddress', abiType: 'address', encryptedBits: 160 },
+  8: { type: 'euint256', abiType: 'uint256', encryptedBits: 256 },
+};
+
+export interface ParsedHandle {
+  /** Lowercase hex, as the relayer keys its results */
+  handle: `0x${string}`;
+  /** First 21 bytes: hash of the ciphertext and its origin */
+  hash: string;
+  /** Position in the encrypted input, or null for a handle produced by on-chain computation */
+  index: number | null;
+  chainId: number;
+  fheType: number;
+  type: EncryptedValueType;
+  abiType: HandleAbiType;
+  encryptedBits: number;
+  version: number;
+}
+
+export interface HandleExpectation {
+  /** Accepted Solidity type(s), e.g. `'euint32'` */
+  type?: EncryptedValueType | EncryptedValueType[];
+  /** Chain the handle must have been created on; skipped when null or omitted */
+  chainId?: number | null;
+}
+
+/**
+ * Decode a handle; throws `INVALID_HANDLE` for anything that is not a well-formed, initialized handle
+ */
+export function parseHandle(handle: string | Uint8Array): ParsedHandle {
+  const hex = (typeof handle === 'string' ? handle : ethers.hexlify(handle)).toLowerCase() as `0x${string}`;
+  if (!ethers.isHexString(hex, 32)) {
+    throw new FhevmError('INVALID_HANDLE', `Invalid ciphertext handle ${hex}: expected 32 bytes of hex`);
+  }
+  if (hex === ethers.ZeroHash) {
+    throw new FhevmError('INVALID_HANDLE', 'Ciphertext handle is zero: the encrypted value was never initialized');
+  }
+
+  const indexByte = parseInt(hex.slice(44, 46), 16);
+  const chainId = BigInt(`0x${hex.slice(46, 62)}`);
+  const fheType = parseInt(hex.slice(62, 64), 16);
+  const version = parseInt(hex.slice(64, 66), 16);
+
+  const info = FHE_TYPES[fheType];
+  if (!info) {
+    throw new FhevmError('INVALID_HANDLE', `Unsupported FHE type ${fheType} in handle ${hex}`);
+  }
+  if (version !== HANDLE_VERSION) {
+    throw new FhevmError('INVALID_HANDLE', `Unsupported handle version ${version} in handle ${hex}`);
+  }
+  if (chainId > BigInt(Number.MAX_SAFE_INTEGER)) {
+    throw new FhevmError('INVALID_HANDLE', `Chain ID ${chainId} in handle ${hex} is out of range`);
+  }
+
+  return {
+    handle: hex,
+    hash: hex.slice(0, 44),
+    index: indexByte === COMPUTED_INDEX ? null : indexByte,
+    chainId: Number(chainId),
+    fheType,
+    version,
+    ...info,
+  };
+}
+
+/**
+ * Parse a handle and check it against the expected type and chain - `INVALID_HANDLE` for the wrong type,
+ * `CHAIN_MISMATCH` for a handle from another chain
+ */
+export function validateHandle(handle: string | Uint8Array, expected: HandleExpectation = {}): ParsedHandle {
+  const parsed = parseHandle(handle);
+
+  const types = expected.type === undefined ? [] : ([] as EncryptedValueType[]).concat(expected.type);
+  if (types.length > 0 && !types.includes(parsed.type)) {
+    throw new FhevmError('INVALID_HANDLE', `Handle ${parsed.handle} is ${parsed.type}, expected ${types.join(' or ')}`);
+  }
+  if (expected.chainId != null && parsed.chainId !== expected.chainId) {
+    throw new FhevmError(
+      'CHAIN_MISMATCH',
+      `Handle ${parsed.handle} was created on chain ${parsed.chainId}, expected chain ${expected.chainId}`
+    );
+  }
+  return parsed;
+}
+
+/**
+ * Read the FHE type from byte 30 of a 32-byte handle and return the matching ABI type
+ */
+export function getHandleAbiType(handle: string): HandleAbiType {
+  return parseHandle(handle).abiType;
+}
@@ -4,7 +4,20 @@
  */
 
 // Core FHEVM functionality - All functions consolidated in fhevm.ts
+export * from './errors.js';
+export * from './logger.js';
+export * from './events.js';
 export * from './fhevm.js';
+export * from './handles.js';
+export * from './acl.js';
+export * from './proof.js';
+export * from './types.js';
+export * from './eip1193.js';
+export * from './session.js';
+export * from './transport.js';
+export * from './worker.js';
+export * from './assets.js';
 export * from './contracts.js';
+export * from './auction.js';
 
 
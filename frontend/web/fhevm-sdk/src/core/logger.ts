@@ -0,0 +1,106 @@
+/**
+ * FHEVM Logger - Universal SDK
+ * Leveled, structured logging with an injectable sink; secrets are redacted before any sink sees them
+ */
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error' | 'silent';
+
+export type LogFields = Record<string, unknown>;
+
+export interface LogEntry {
+  level: Exclude<LogLevel, 'silent'>;
+  scope: string;
+  message: string;
+  fields: LogFields;
+  timestamp: number;
+}
+
+export type LogSink = (entry: LogEntry) => void;
+
+export interface FhevmLogger {
+  debug(message: string, fields?: LogFields): void;
+  info(message: string, fields?: LogFields): void;
+  warn(message: string, fields?: LogFields): void;
+  error(message: string, fields?: LogFields): void;
+}
+
+export interface LoggerOptions {
+  /** Defaults to `silent` when NODE_ENV is production, `info` otherwise */
+  level?: LogLevel;
+  /** Defaults to the console */
+  sink?: LogSink;
+}
+
+const LEVEL_ORDER: Record<LogLevel, number> = { debug: 0, info: 1, warn: 2, error: 3, silent: 4 };
+
+/** Plaintexts, keys and signatures - replaced whatever the sink or level */
+const SECRET_FIELD = /^(value|values|plaintext|clearValues?|abiEncodedClearValues|privateKey|signature|secret|password)$/i;
+/** Account addresses are shortened to their first and last bytes */
+const ADDRESS_FIELD = /^(address|userAddress|account|signer|bidder)$/i;
+
+export const REDACTED = '[redacted]';
+
+function redact(value: unknown, key: string, depth: number): unknown {
+  if (SECRET_FIELD.test(key)) return REDACTED;
+  if (ADDRESS_FIELD.test(key) && typeof value === 'string' && /^0x[0-9a-fA-F]{40}$/.test(value)) {
+    return `${value.slice(0, 6)}…${value.slice(-4)}`;
+  }
+  if (value instanceof Error) {
+    return { name: value.name, message: value.message, code: (value as { code?: unknown }).code };
+  }
+  if (typeof value === 'bigint') return value.toString();
+  if (depth >= 4 || value === null || typeof value !== 'object') return value;
+  if (Array.isArray(value)) return value.map((item) => redact(item, key, depth + 1));
+  return Object.fromEntries(
+    Object.entries(value as Record<string, unknown>).map(([field, item]) => [field, redact(item, field, depth + 1)])
+  );
+}
+
+export function redactFields(fields: LogFields): LogFields {
+  return redact(fields, '', 0) as LogFields;
+}
+
+export const consoleSink: LogSink = ({ level, scope, message, fields }) => {
+  const line = `[fhevm:${scope}] ${message}`;
+  if (Object.keys(fields).length === 0) console[level](line);
+  else console[level](line, fields);
+};
+
+/**
+ * Silent in production builds: `NODE_ENV` in Node.js, `import.meta.env.PROD` in Vite-style browser bundles
+ */
+function defaultLevel(): LogLevel {
+  const nodeEnv = typeof process !== 'undefined' ? process.env?.NODE_ENV : undefined;
+  const bundleProd = (import.meta as ImportMeta & { env?: { PROD?: boolean } }).env?.PROD;
+  return nodeEnv === 'production' || bundleProd === true ? 'silent' : 'info';
+}
+
+let config: Required<LoggerOptions> = { level: defaultLevel(), sink: consoleSink };
+
+/**
+ * Set the level and/or sink for every SDK logger
+ */
+export function configureLogger(options: LoggerOptions): void {
+  config = { ...config, ...options };
+}
+
+/**
+ * Logger tagged with `scope`; the level and sink are read on every call, so `configureLogger` applies immediately
+ */
+export function getLogger(scope: string): FhevmLogger {
+  const log = (level: LogEntry['level'], message: string, fields: LogFields = {}) => {
+    if (LEVEL_ORDER[level] < LEVEL_ORDER[config.level]) return;
+    try {
+      config.sink({ level, scope, message, fields: redactFields(fields), timestamp: Date.now() });
+    } catch {
+      // A broken sink must never break an SDK call
+    }
+  };
+
+  return {
+    debug: (message, fields) => log('debug', message, fields),
+    info: (message, fields) => log('info', message, fields),
+    warn: (message, fields) => log('warn', message, fields),
+    error: (message, fields) => log('error', message, fields),
+  };
+}
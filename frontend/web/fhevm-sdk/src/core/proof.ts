@@ -0,0 +1,115 @@
+/**
+ * FHEVM Decryption Proofs - Universal SDK
+ * Checks a public-decryption proof against the host chain's KMSVerifier before it goes into a transaction,
+ * so a proof that `FHE.checkSignatures` would reject fails without spending gas
+ */
+
+import { ethers } from 'ethers';
+import { FhevmError, toFhevmError } from './errors.js';
+import { getHostChain } from './acl.js';
+import type { HostChainOptions } from './acl.js';
+import { parseHandle } from './handles.js';
+import { IKMSVerifier__factory } from '../types/fhevm/index.js';
+
+const SIGNATURE_BYTES = 65;
+
+/**
+ * Custom errors `KMSVerifier.verifyDecryptionEIP712KMSSignatures` reverts with - not part of `IKMSVerifier`
+ */
+const KMS_VERIFIER_ERRORS = new ethers.Interface([
+  'error EmptyDecryptionProof()',
+  'error DeserializingDecryptionProofFail()',
+  'error KMSInvalidSigner(address invalidSigner)',
+  'error KMSSignatureThresholdNotReached(uint256 numSignatures)',
+  'error KMSZeroSignature()',
+]);
+
+export interface DecodedDecryptionProof {
+  signatures: string[];
+  extraData: string;
+}
+
+/**
+ * Split a proof into its KMS signatures and extra data: numSigners[0] | 65-byte signatures | extraData
+ */
+export function decodeDecryptionProof(decryptionProof: string): DecodedDecryptionProof {
+  if (!ethers.isHexString(decryptionProof) || decryptionProof === '0x') {
+    throw new FhevmError('PROOF_INVALID', 'Decryption proof is empty or not hex');
+  }
+  const bytes = ethers.getBytes(decryptionProof);
+  const count = bytes[0];
+  if (count === 0) throw new FhevmError('PROOF_INVALID', 'Decryption proof carries no KMS signatures');
+
+  const extraDataOffset = 1 + count * SIGNATURE_BYTES;
+  if (bytes.length < extraDataOffset) {
+    throw new FhevmError(
+      'PROOF_INVALID',
+      `Decryption proof is truncated: ${count} signatures need ${extraDataOffset} bytes, got ${bytes.length}`
+    );
+  }
+
+  const signatures = Array.from({ length: count }, (_, i) =>
+    ethers.hexlify(bytes.slice(1 + i * SIGNATURE_BYTES, 1 + (i + 1) * SIGNATURE_BYTES))
+  );
+  return { signatures, extraData: ethers.hexlify(bytes.slice(extraDataOffset)) };
+}
+
+function kmsRevertReason(error: FhevmError): string | undefined {
+  if (error.reason) return error.reason;
+  const data = (error.cause as { data?: string } | undefined)?.data;
+  try {
+    return data ? KMS_VERIFIER_ERRORS.parseError(data)?.name : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Run the KMSVerifier's own check - the call `FHE.checkSignatures` makes, against the registered signer set
+ * and threshold - as a read, with the handles, clear values and proof exactly as they will be sent.
+ * Throws `PROOF_INVALID` for a malformed proof, unknown signers, too few signatures or signatures over other values.
+ */
+export async function verifyDecryptionProof(
+  handles: string[],
+  abiEncodedClearValues: string,
+  decryptionProof: string,
+  options: HostChainOptions = {}
+): Promise<void> {
+  if (handles.length === 0) throw new FhevmError('INVALID_INPUT', 'No handles to verify the decryption proof against');
+  const parsed = handles.map((handle) => parseHandle(handle));
+  const { chainId } = parsed[0];
+  if (parsed.some((handle) => handle.chainId !== chainId)) {
+    throw new FhevmError('CHAIN_MISMATCH', 'All handles covered by one decryption proof must come from the same chain');
+  }
+
+  // Offline checks first: every supported clear value ABI-encodes to one 32-byte word
+  decodeDecryptionProof(decryptionProof);
+  const clearValuesLength = ethers.isHexString(abiEncodedClearValues) ? ethers.dataLength(abiEncodedClearValues) : -1;
+  if (clearValuesLength !== handles.length * 32) {
+    throw new FhevmError(
+      'PROOF_INVALID',
+      `Clear values are ${clearValuesLength} bytes, expected ${handles.length * 32} for ${handles.length} handles`
+    );
+  }
+
+  const { runner, contracts } = getHostChain(chainId, options);
+  const verifier = IKMSVerifier__factory.connect(contracts.kmsVerifier, runner);
+
+  let verified: boolean;
+  try {
+    verified = await verifier.verifyDecryptionEIP712KMSSignatures.staticCall(
+      parsed.map((handle) => handle.handle),
+      abiEncodedClearValues,
+      decryptionProof
+    );
+  } catch (err) {
+    const error = toFhevmError(err);
+    if (error.code !== 'CONTRACT_REVERT') throw error;
+    const reason = kmsRevertReason(error);
+    throw new FhevmError('PROOF_INVALID', `KMSVerifier rejected the decryption proof${reason ? `: ${reason}` : ''}`, {
+      cause: err,
+      reason,
+    });
+  }
+  if (!verified) throw new FhevmError('PROOF_INVALID', 'KMSVerifier rejected the decryption proof signatures');
+}
@@ -0,0 +1,328 @@
+/**
+ * FHEVM User Decryption Sessions - Universal SDK
+ * Keypairs and EIP-712 permits per user and chain, stored encrypted and reused until they expire
+ */
+
+import { ethers } from 'ethers';
+import { openDB } from 'idb';
+import type { IDBPDatabase } from 'idb';
+import { FhevmError } from './errors.js';
+import { emitFhevmEvent } from './events.js';
+import type { FhevmInstance } from './types.js';
+
+/**
+ * The relayer rejects permits covering more contracts than this; larger sets are split across permits
+ */
+export const MAX_SESSION_CONTRACTS = 10;
+
+export interface DecryptionSession {
+  chainId: number;
+  userAddress: string;
+  contractAddresses: string[];
+  publicKey: string;
+  privateKey: string;
+  signature: string;
+  startTimestamp: number;
+  durationDays: number;
+  /** Milliseconds since epoch */
+  expiresAt: number;
+}
+
+/**
+ * Where sessions are persisted - values are already encrypted with the store's own key
+ */
+export interface SessionStore {
+  get(id: string): Promise<string | undefined>;
+  set(id: string, value: string): Promise<void>;
+  delete(id: string): Promise<void>;
+  /** AES-GCM key used to seal stored sessions */
+  getKey(): Promise<CryptoKey>;
+}
+
+export interface SessionManagerOptions {
+  /** Defaults to IndexedDB in the browser and a file under the home directory in Node.js */
+  store?: SessionStore;
+  /** Permit lifetime in days */
+  durationDays?: number;
+  /** Re-sign when the permit expires within this many seconds */
+  refreshMarginSeconds?: number;
+}
+
+function generateSessionKey(extractable: boolean): Promise<CryptoKey> {
+  return crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, extractable, ['encrypt', 'decrypt']);
+}
+
+/**
+ * Sessions kept only for the lifetime of the page or process
+ */
+export function createMemorySessionStore(): SessionStore {
+  const sessions = new Map<string, string>();
+  let key: Promise<CryptoKey> | undefined;
+
+  return {
+    async get(id) { return sessions.get(id); },
+    async set(id, value) { sessions.set(id, value); },
+    async delete(id) { sessions.delete(id); },
+    getKey() { return (key ??= generateSessionKey(false)); },
+  };
+}
+
+/**
+ * Browser store - the sealing key is a non-extractable CryptoKey kept next to the sessions
+ */
+export function createIndexedDBSessionStore(dbName = 'fhevm-sdk'): SessionStore {
+  let db: Promise<IDBPDatabase> | undefined;
+  let key: Promise<CryptoKey> | undefined;
+
+  const open = () => (db ??= openDB(dbName, 1, {
+    upgrade(database) {
+      database.createObjectStore('sessions');
+      database.createObjectStore('keys');
+    },
+  }));
+
+  return {
+    async get(id) { return (await open()).get('sessions', id); },
+    async set(id, value) { await (await open()).put('sessions', value, id); },
+    async delete(id) { await (await open()).delete('sessions', id); },
+    getKey() {
+      return (key ??= (async () => {
+        const database = await open();
+        const existing: CryptoKey | undefined = await database.get('keys', 'session');
+        if (existing) return existing;
+        const created = await generateSessionKey(false);
+        await database.put('keys', created, 'session');
+        return created;
+      })());
+    },
+  };
+}
+
+/**
+ * Node.js store - sessions in a JSON file, sealed with a key kept in `<path>.key`, both readable by the owner only
+ */
+export function createFileSessionStore(path?: string): SessionStore {
+  let files: Promise<{ fs: any; file: string }> | undefined;
+  let key: Promise<CryptoKey> | undefined;
+
+  // Use eval to prevent bundlers from analyzing these imports
+  const resolve = () => (files ??= (async () => {
+    const fs = await eval('import("node:fs/promises")');
+    const nodePath = await eval('import("node:path")');
+    const os = await eval('import("node:os")');
+    const file = path ?? nodePath.join(os.homedir(), '.fhevm-sdk', 'sessions.json');
+    await fs.mkdir(nodePath.dirname(file), { recursive: true, mode: 0o700 });
+    return { fs, file };
+  })());
+
+  const read = async (): Promise<Record<string, string>> => {
+    const { fs, file } = await resolve();
+    try {
+      return JSON.parse(await fs.readFile(file, 'utf8'));
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') return {};
+      throw error;
+    }
+  };
+
+  const write = async (sessions: Record<string, string>) => {
+    const { fs, file } = await resolve();
+    await fs.writeFile(file, JSON.stringify(sessions), { mode: 0o600 });
+  };
+
+  return {
+    async get(id) { return (await read())[id]; },
+    async set(id, value) { await write({ ...(await read()), [id]: value }); },
+    async delete(id) {
+      const sessions = await read();
+      delete sessions[id];
+      await write(sessions);
+    },
+    getKey() {
+      return (key ??= (async () => {
+        const { fs, file } = await resolve();
+        const keyFile = `${file}.key`;
+        const format = 'raw';
+        const usages: KeyUsage[] = ['encrypt', 'decrypt'];
+        try {
+          const raw = new Uint8Array(ethers.decodeBase64(await fs.readFile(keyFile, 'utf8')));
+          return await crypto.subtle.importKey(format, raw, 'AES-GCM', false, usages);
+        } catch (error: any) {
+          if (error?.code !== 'ENOENT') throw error;
+        }
+        const created = await generateSessionKey(true);
+        const raw = new Uint8Array(await crypto.subtle.exportKey(format, created));
+        await fs.writeFile(keyFile, ethers.encodeBase64(raw), { mode: 0o600 });
+        return crypto.subtle.importKey(format, raw, 'AES-GCM', false, usages);
+      })());
+    },
+  };
+}
+
+function createDefaultSessionStore(): SessionStore {
+  if (typeof indexedDB !== 'undefined') return createIndexedDBSessionStore();
+  if (typeof process !== 'undefined' && process.versions?.node) return createFileSessionStore();
+  return createMemorySessionStore();
+}
+
+async function seal(key: CryptoKey, sessions: DecryptionSession[]): Promise<string> {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const plaintext = new Uint8Array(ethers.toUtf8Bytes(JSON.stringify(sessions)));
+  const ciphertext = new Uint8Array(await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, plaintext));
+  return ethers.encodeBase64(ethers.concat([iv, ciphertext]));
+}
+
+async function unseal(key: CryptoKey, sealed: string): Promise<DecryptionSession[]> {
+  const bytes = new Uint8Array(ethers.decodeBase64(sealed));
+  const plaintext = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: bytes.slice(0, 12) }, key, bytes.slice(12));
+  return JSON.parse(ethers.toUtf8String(new Uint8Array(plaintext))) as DecryptionSession[];
+}
+
+/**
+ * Hands out user-decryption permits, asking the wallet to sign only for requested contracts no stored
+ * permit covers or when the stored permits are about to expire
+ */
+export class DecryptionSessionManager {
+  private readonly store: SessionStore;
+  private readonly durationDays: number;
+  private readonly refreshMarginMs: number;
+  private readonly pending = new Map<string, Promise<unknown>>();
+
+  constructor(options: SessionManagerOptions = {}) {
+    this.store = options.store ?? createDefaultSessionStore();
+    this.durationDays = options.durationDays ?? 1;
+    this.refreshMarginMs = (options.refreshMarginSeconds ?? 300) * 1000;
+  }
+
+  /**
+   * Permits that together cover `contractAddresses` - each contract is in exactly one of them and each
+   * covers at most `MAX_SESSION_CONTRACTS` - reused from the store or freshly signed by `signer`
+   */
+  async getSessions(
+    fhe: FhevmInstance,
+    chainId: number,
+    signer: ethers.Signer,
+    contractAddresses: string[]
+  ): Promise<DecryptionSession[]> {
+    const userAddress = ethers.getAddress(await signer.getAddress());
+    const requested = [...new Set(contractAddresses.map((address) => ethers.getAddress(address)))];
+    if (requested.length === 0) throw new FhevmError('INVALID_INPUT', 'A decryption permit needs at least one contract');
+
+    const id = `${chainId}:${userAddress.toLowerCase()}`;
+
+    // Queue behind any lookup for the same user so concurrent callers share one signature prompt
+    const previous = this.pending.get(id) ?? Promise.resolve();
+    const next = previous
+      .catch(() => undefined)
+      .then(() => this.resolve(id, fhe, chainId, signer, userAddress, requested));
+    this.pending.set(id, next);
+    try {
+      return await next;
+    } finally {
+      if (this.pending.get(id) === next) this.pending.delete(id);
+    }
+  }
+
+  /**
+   * Forget the stored permits, e.g. on disconnect
+   */
+  async clear(chainId: number, userAddress: string): Promise<void> {
+    await this.store.delete(`${chainId}:${userAddress.toLowerCase()}`);
+  }
+
+  private async resolve(
+    id: string,
+    fhe: FhevmInstance,
+    chainId: number,
+    signer: ethers.Signer,
+    userAddress: string,
+    requested: string[]
+  ): Promise<DecryptionSession[]> {
+    const sessions = await this.load(id);
+    const uncovered = requested.filter((address) => !sessions.some((session) => session.contractAddresses.includes(address)));
+
+    for (let i = 0; i < uncovered.length; i += MAX_SESSION_CONTRACTS) {
+      const group = uncovered.slice(i, i + MAX_SESSION_CONTRACTS);
+      // Re-sign a stored permit with room for the group, keeping its contracts so switching pages does not re-prompt
+      const index = sessions.findIndex((session) => session.contractAddresses.length + group.length <= MAX_SESSION_CONTRACTS);
+      const covered = index >= 0 ? [...sessions[index].contractAddresses, ...group] : group;
+      const session = await this.create(fhe, chainId, signer, userAddress, covered);
+      if (index >= 0) sessions[index] = session;
+      else sessions.push(session);
+    }
+    if (uncovered.length > 0) await this.store.set(id, await seal(await this.store.getKey(), sessions));
+
+    return sessions.filter((session) => session.contractAddresses.some((address) => requested.includes(address)));
+  }
+
+  private async load(id: string): Promise<DecryptionSession[]> {
+    const sealed = await this.store.get(id);
+    if (!sealed) return [];
+
+    let sessions: DecryptionSession[];
+    try {
+      sessions = await unseal(await this.store.getKey(), sealed);
+    } catch {
+      // Sealed with a key that no longer exists
+      await this.store.delete(id);
+      return [];
+    }
+
+    const live = sessions.filter((session) => session.expiresAt - this.refreshMarginMs > Date.now());
+    for (const session of sessions) {
+      if (live.includes(session)) continue;
+      emitFhevmEvent('sessionExpired', { chainId: session.chainId, userAddress: session.userAddress, expiresAt: session.expiresAt });
+    }
+    if (live.length < sessions.length) {
+      if (live.length > 0) await this.store.set(id, await seal(await this.store.getKey(), live));
+      else await this.store.delete(id);
+    }
+    return live;
+  }
+
+  private async create(
+    fhe: FhevmInstance,
+    chainId: number,
+    signer: ethers.Signer,
+    userAddress: string,
+    contractAddresses: string[]
+  ): Promise<DecryptionSession> {
+    const keypair = await fhe.generateKeypair();
+    const startTimestamp = Math.floor(Date.now() / 1000);
+    const eip712 = await fhe.createEIP712(keypair.publicKey, contractAddresses, startTimestamp, this.durationDays);
+
+    const signature = await signer.signTypedData(
+      eip712.domain,
+      {
+        UserDecryptRequestVerification: eip712.types.UserDecryptRequestVerification,
+      },
+      eip712.message
+    );
+
+    return {
+      chainId,
+      userAddress,
+      contractAddresses,
+      publicKey: keypair.publicKey,
+      privateKey: keypair.privateKey,
+      signature,
+      startTimestamp,
+      durationDays: this.durationDays,
+      expiresAt: (startTimestamp + this.durationDays * 86400) * 1000,
+    };
+  }
+}
+
+let defaultManager: DecryptionSessionManager | null = null;
+
+/**
+ * Replace the manager used by `decryptValue` and `batchDecryptValues`
+ */
+export function configureDecryptionSessions(options: SessionManagerOptions = {}): DecryptionSessionManager {
+  defaultManager = new DecryptionSessionManager(options);
+  return defaultManager;
+}
+
+export function getDecryptionSessionManager(): DecryptionSessionManager {
+  return (defaultManager ??= new DecryptionSessionManager());
+}
@@ -0,0 +1,193 @@
+/**
+ * FHEVM Relayer Transport - Universal SDK
+ * Timeouts, retries with backoff and a circuit breaker around every relayer round trip
+ */
+
+import { FhevmError, toFhevmError } from './errors.js';
+import { emitFhevmEvent } from './events.js';
+import { getLogger } from './logger.js';
+
+const logger = getLogger('transport');
+
+export interface RelayerTransportOptions {
+  /** Give up on a single attempt after this long */
+  timeoutMs?: number;
+  /** Extra attempts for idempotent operations (decryption) - encryption is never retried */
+  retries?: number;
+  /** First backoff delay; doubles per attempt, capped at `maxDelayMs`, with random jitter */
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  /** Consecutive failures that open the circuit */
+  failureThreshold?: number;
+  /** How long an open circuit fails fast before letting one trial call through */
+  cooldownMs?: number;
+}
+
+export interface RelayerCallOptions {
+  signal?: AbortSignal;
+}
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+const DEFAULT_OPTIONS: Required<RelayerTransportOptions> = {
+  timeoutMs: 30_000,
+  retries: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 8_000,
+  failureThreshold: 5,
+  cooldownMs: 30_000,
+};
+
+function abortError(signal: AbortSignal): FhevmError {
+  return new FhevmError('ABORTED', 'Relayer request was aborted', { cause: signal.reason });
+}
+
+function withTimeout<T>(promise: Promise<T>, operation: string, timeoutMs: number, signal?: AbortSignal): Promise<T> {
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => {
+      cleanup();
+      reject(abortError(signal!));
+    };
+    const timer = setTimeout(() => {
+      cleanup();
+      reject(new FhevmError('RELAYER_UNAVAILABLE', `Relayer ${operation} timed out after ${timeoutMs}ms`));
+    }, timeoutMs);
+    const cleanup = () => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+    };
+
+    signal?.addEventListener('abort', onAbort, { once: true });
+    promise.then(
+      (value) => { cleanup(); resolve(value); },
+      (error) => { cleanup(); reject(error); }
+    );
+  });
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise<void>((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortError(signal!));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+export class RelayerTransport {
+  private readonly options: Required<RelayerTransportOptions>;
+  private state: CircuitState = 'closed';
+  private failures = 0;
+  private openedAt = 0;
+  private trialInFlight = false;
+
+  constructor(options: RelayerTransportOptions = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  get circuitState(): CircuitState {
+    if (this.state === 'open' && Date.now() - this.openedAt >= this.options.cooldownMs) return 'half-open';
+    return this.state;
+  }
+
+  /**
+   * Run one relayer operation. Only `RELAYER_UNAVAILABLE` failures (network errors, timeouts) are retried
+   * and counted by the breaker - ACL denials and bad input surface immediately.
+   */
+  async call<T>(
+    operation: string,
+    request: () => Promise<T>,
+    options: RelayerCallOptions & { idempotent?: boolean } = {}
+  ): Promise<T> {
+    const { signal, idempotent = false } = options;
+    const attempts = idempotent ? this.options.retries + 1 : 1;
+
+    for (let attempt = 1; ; attempt++) {
+      if (signal?.aborted) throw abortError(signal);
+      const trial = this.admit(operation);
+      const startedAt = Date.now();
+
+      try {
+        const result = await withTimeout(request(), operation, this.options.timeoutMs, signal);
+        this.onSuccess();
+        return result;
+      } catch (error) {
+        const fhevmError = toFhevmError(error);
+        const report = (willRetry: boolean) => {
+          if (fhevmError.code === 'ABORTED') return;
+          emitFhevmEvent('relayerError', { operation, attempt, willRetry, durationMs: Date.now() - startedAt, error: fhevmError });
+        };
+        if (fhevmError.code !== 'RELAYER_UNAVAILABLE') {
+          if (trial) this.trialInFlight = false;
+          report(false);
+          throw fhevmError;
+        }
+        this.onFailure();
+        const willRetry = attempt < attempts && this.state !== 'open';
+        report(willRetry);
+        if (!willRetry) throw fhevmError;
+        logger.warn('Relayer call failed, retrying', { operation, attempt, error: fhevmError });
+      }
+
+      const delay = Math.min(this.options.maxDelayMs, this.options.baseDelayMs * 2 ** (attempt - 1));
+      await sleep(delay / 2 + Math.random() * (delay / 2), signal);
+    }
+  }
+
+  /**
+   * Close the circuit, e.g. after switching to another relayer
+   */
+  reset(): void {
+    this.state = 'closed';
+    this.failures = 0;
+    this.trialInFlight = false;
+  }
+
+  /** Fail fast while open; returns true when this call is the half-open trial */
+  private admit(operation: string): boolean {
+    const state = this.circuitState;
+    if (state === 'closed') return false;
+    if (state === 'half-open' && !this.trialInFlight) {
+      this.state = 'half-open';
+      this.trialInFlight = true;
+      return true;
+    }
+    throw new FhevmError(
+      'RELAYER_UNAVAILABLE',
+      `Relayer ${operation} skipped: ${this.failures} consecutive failures, retrying after cooldown`
+    );
+  }
+
+  private onSuccess() {
+    this.reset();
+  }
+
+  private onFailure() {
+    this.failures++;
+    this.trialInFlight = false;
+    if (this.state === 'half-open' || this.failures >= this.options.failureThreshold) {
+      this.state = 'open';
+      this.openedAt = Date.now();
+      logger.error('Relayer circuit opened', { failures: this.failures, cooldownMs: this.options.cooldownMs });
+    }
+  }
+}
+
+let transport = new RelayerTransport();
+
+/**
+ * Replace the transport used for all relayer calls
+ */
+export function configureRelayerTransport(options: RelayerTransportOptions = {}): RelayerTransport {
+  transport = new RelayerTransport(options);
+  return transport;
+}
+
+export function getRelayerTransport(): RelayerTransport {
+  return transport;
+}
@@ -0,0 +1,135 @@
+/**
+ * FHEVM Instance Types - Universal SDK
+ * The surface shared by the relayer SDK instance and the local mock instance
+ */
+
+import type { ethers } from 'ethers';
+import type { FhevmProvider } from './eip1193.js';
+import type { RelayerSdk } from './assets.js';
+
+export interface RelayerEncryptedInput {
+  addBool(value: boolean | number | bigint): RelayerEncryptedInput;
+  add8(value: number | bigint): RelayerEncryptedInput;
+  add16(value: number | bigint): RelayerEncryptedInput;
+  add32(value: number | bigint): RelayerEncryptedInput;
+  add64(value: number | bigint): RelayerEncryptedInput;
+  add128(value: number | bigint): RelayerEncryptedInput;
+  add256(value: number | bigint): RelayerEncryptedInput;
+  addAddress(value: string): RelayerEncryptedInput;
+  encrypt(): Promise<{ handles: Uint8Array[]; inputProof: Uint8Array }>;
+}
+
+export type EncryptedUintType = 'euint8' | 'euint16' | 'euint32' | 'euint64' | 'euint128' | 'euint256';
+
+/**
+ * One plaintext to encrypt, tagged with the Solidity type the contract expects
+ */
+export type EncryptedValue =
+  | { type: 'ebool'; value: boolean | number | bigint }
+  | { type: EncryptedUintType; value: number | bigint }
+  | { type: 'eaddress'; value: string };
+
+export type EncryptedValueType = EncryptedValue['type'];
+
+/**
+ * Hex handles in input order plus the single proof covering all of them
+ */
+export interface EncryptedInputs {
+  handles: string[];
+  inputProof: string;
+}
+
+export interface EIP712 {
+  domain: {
+    chainId: number;
+    name: string;
+    verifyingContract: string;
+    version: string;
+  };
+  message: Record<string, unknown>;
+  primaryType: string;
+  types: Record<string, { name: string; type: string }[]>;
+}
+
+export interface HandleContractPair {
+  handle: Uint8Array | string;
+  contractAddress: string;
+}
+
+export type ClearValueType = bigint | boolean | `0x${string}`;
+
+export interface PublicDecryptResults {
+  clearValues: Record<string, ClearValueType>;
+  abiEncodedClearValues: `0x${string}`;
+  decryptionProof: `0x${string}`;
+}
+
+export interface FhevmInstance {
+  createEncryptedInput(contractAddress: string, userAddress: string): RelayerEncryptedInput;
+  /** Asynchronous when the instance lives in a Web Worker */
+  generateKeypair(): { publicKey: string; privateKey: string } | Promise<{ publicKey: string; privateKey: string }>;
+  createEIP712(
+    publicKey: string,
+    contractAddresses: string[],
+    startTimestamp: string | number,
+    durationDays: string | number
+  ): EIP712 | Promise<EIP712>;
+  publicDecrypt(handles: (string | Uint8Array)[]): Promise<PublicDecryptResults>;
+  userDecrypt(
+    handles: HandleContractPair[],
+    privateKey: string,
+    publicKey: string,
+    signature: string,
+    contractAddresses: string[],
+    userAddress: string,
+    startTimestamp: string | number,
+    durationDays: string | number
+  ): Promise<Record<string, ClearValueType>>;
+}
+
+/**
+ * Where the relayer SDK and its WASM come from (browser)
+ */
+export interface FhevmAssetOptions {
+  /** `script`: `window.relayerSDK`, injected from `sdkUrl` when missing (default). `npm`: the module `sdkModule` imports */
+  source?: 'script' | 'npm';
+  /**
+   * `() => import('@zama-fhe/relayer-sdk/web')` for `source: 'npm'` - written in the app, so only apps using it
+   * bundle the package and its self-spawning thread-pool worker
+   */
+  sdkModule?: () => Promise<RelayerSdk>;
+  /** UMD bundle to inject; defaults to the Zama CDN */
+  sdkUrl?: string;
+  /** Directory serving tfhe_bg.wasm and kms_lib_bg.wasm; defaults to the page origin */
+  wasmBaseUrl?: string;
+  /** Load the WASM from `wasmBaseUrl` first and only then from the SDK's default location */
+  offlineFirst?: boolean;
+  /** Subresource-integrity hashes (`sha384-…`); WASM with a hash is always loaded from `wasmBaseUrl` and checked */
+  integrity?: { sdk?: string; tfhe?: string; kms?: string };
+}
+
+/**
+ * How an instance is created - instances with different options are kept apart in the registry
+ */
+export interface FhevmInstanceOptions {
+  /** JSON-RPC endpoint (Node.js and mock mode) */
+  rpcUrl?: string;
+  /** Use the local Hardhat mock coprocessor instead of the relayer */
+  mock?: boolean;
+  /** Override the relayer URL from the network preset */
+  relayerUrl?: string;
+  /**
+   * Node.js: ethers Provider or EIP-1193 provider (e.g. Hardhat's in-process `hre.network.provider`)
+   * to use instead of `rpcUrl` - the chain ID is read from it
+   */
+  provider?: FhevmProvider;
+  /** Node.js: signs EIP-712 permits and transactions sent through the bridge */
+  signer?: ethers.Signer;
+  /**
+   * Browser: host the relayer SDK in a dedicated Web Worker so encryption and decryption run off the
+   * main thread. The worker reads the chain through `rpcUrl` (the Sepolia preset's public RPC by default).
+   */
+  worker?: boolean;
+  /** Browser: relayer SDK and WASM locations, offline-first loading and integrity hashes */
+  assets?: FhevmAssetOptions;
+}
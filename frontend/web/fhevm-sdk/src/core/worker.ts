@@ -0,0 +1,224 @@
+/**
+ * FHEVM Worker Proxy - Universal SDK
+ * Hosts the relayer SDK in a dedicated Web Worker and exposes it as a regular `FhevmInstance`,
+ * so TFHE encryption and decryption never block the main thread
+ */
+
+import type {
+  ClearValueType,
+  EIP712,
+  FhevmInstance,
+  PublicDecryptResults,
+  RelayerEncryptedInput,
+} from './types.js';
+import type { ResolvedAssetOptions } from './assets.js';
+import { FhevmError } from './errors.js';
+import type { FhevmErrorCode } from './errors.js';
+import { getLogger } from './logger.js';
+
+const logger = getLogger('worker');
+
+export type WorkerStage =
+  | 'loading-sdk'
+  | 'loading-wasm'
+  | 'creating-instance'
+  | 'encrypting'
+  | 'decrypting';
+
+export interface WorkerProgress {
+  /** Request the stage belongs to */
+  id: number;
+  stage: WorkerStage;
+}
+
+export type WorkerOperation = 'init' | 'encrypt' | 'publicDecrypt' | 'userDecrypt' | 'generateKeypair' | 'createEIP712';
+
+/** `RelayerEncryptedInput` method name and argument, replayed in the worker */
+export type WorkerInputValue = [method: Exclude<keyof RelayerEncryptedInput, 'encrypt'>, value: unknown];
+
+export interface WorkerInitOptions {
+  /** Resolved on the main thread - relative URLs would resolve against the worker script */
+  assets: ResolvedAssetOptions;
+  relayerUrl?: string;
+  /** JSON-RPC endpoint the worker reads chain state from - it has no access to `window.ethereum` */
+  rpcUrl?: string;
+}
+
+export type WorkerRequest =
+  | { id: number; op: 'init'; args: [WorkerInitOptions] }
+  | { id: number; op: 'encrypt'; args: [contractAddress: string, userAddress: string, values: WorkerInputValue[]] }
+  | { id: number; op: 'publicDecrypt'; args: Parameters<FhevmInstance['publicDecrypt']> }
+  | { id: number; op: 'userDecrypt'; args: Parameters<FhevmInstance['userDecrypt']> }
+  | { id: number; op: 'generateKeypair'; args: [] }
+  | { id: number; op: 'createEIP712'; args: Parameters<FhevmInstance['createEIP712']> };
+
+export type WorkerResponse =
+  | { id: number; type: 'progress'; stage: WorkerStage }
+  | { id: number; type: 'result'; result: unknown }
+  | { id: number; type: 'error'; error: { name: string; message: string; code?: FhevmErrorCode } };
+
+type ProgressListener = (progress: WorkerProgress) => void;
+
+const progressListeners = new Set<ProgressListener>();
+
+/**
+ * Follow what the worker is doing (SDK download, WASM initialization, encryption, decryption);
+ * returns the unsubscribe function
+ */
+export function onWorkerProgress(listener: ProgressListener): () => void {
+  progressListeners.add(listener);
+  return () => {
+    progressListeners.delete(listener);
+  };
+}
+
+function emitProgress(progress: WorkerProgress) {
+  for (const listener of progressListeners) {
+    try {
+      listener(progress);
+    } catch {
+      // A broken listener must not lose the response
+    }
+  }
+}
+
+export function isWorkerSupported(): boolean {
+  return typeof Worker !== 'undefined' && typeof window !== 'undefined';
+}
+
+/**
+ * Records the `add*` calls on the main thread and sends them to the worker on `encrypt()`
+ */
+class WorkerEncryptedInput implements RelayerEncryptedInput {
+  private readonly values: WorkerInputValue[] = [];
+
+  constructor(
+    private readonly instance: WorkerFhevmInstance,
+    private readonly contractAddress: string,
+    private readonly userAddress: string
+  ) {}
+
+  private push(method: WorkerInputValue[0], value: unknown): RelayerEncryptedInput {
+    this.values.push([method, value]);
+    return this;
+  }
+
+  addBool(value: boolean | number | bigint) { return this.push('addBool', value); }
+  add8(value: number | bigint) { return this.push('add8', value); }
+  add16(value: number | bigint) { return this.push('add16', value); }
+  add32(value: number | bigint) { return this.push('add32', value); }
+  add64(value: number | bigint) { return this.push('add64', value); }
+  add128(value: number | bigint) { return this.push('add128', value); }
+  add256(value: number | bigint) { return this.push('add256', value); }
+  addAddress(value: string) { return this.push('addAddress', value); }
+
+  encrypt(): Promise<{ handles: Uint8Array[]; inputProof: Uint8Array }> {
+    return this.instance.request('encrypt', [this.contractAddress, this.userAddress, this.values]);
+  }
+}
+
+/**
+ * `FhevmInstance` whose every call is a message to the worker. Keypair generation and the EIP-712
+ * permit come back asynchronously, which `FhevmInstance` allows for.
+ */
+export class WorkerFhevmInstance implements FhevmInstance {
+  private nextId = 1;
+  private readonly pending = new Map<number, { resolve: (value: any) => void; reject: (error: Error) => void }>();
+
+  constructor(private readonly worker: Worker) {
+    worker.onmessage = (event: MessageEvent<WorkerResponse>) => this.onMessage(event.data);
+    worker.onerror = (event: ErrorEvent) => {
+      event.preventDefault();
+      this.failAll(new FhevmError('RELAYER_UNAVAILABLE', `FHEVM worker failed: ${event.message}`));
+    };
+  }
+
+  request<T>(op: WorkerOperation, args: unknown[]): Promise<T> {
+    const id = this.nextId++;
+    return new Promise<T>((resolve, reject) => {
+      this.pending.set(id, { resolve, reject });
+      this.worker.postMessage({ id, op, args } as WorkerRequest);
+    });
+  }
+
+  createEncryptedInput(contractAddress: string, userAddress: string): RelayerEncryptedInput {
+    return new WorkerEncryptedInput(this, contractAddress, userAddress);
+  }
+
+  generateKeypair(): Promise<{ publicKey: string; privateKey: string }> {
+    return this.request('generateKeypair', []);
+  }
+
+  createEIP712(
+    publicKey: string,
+    contractAddresses: string[],
+    startTimestamp: string | number,
+    durationDays: string | number
+  ): Promise<EIP712> {
+    return this.request('createEIP712', [publicKey, contractAddresses, startTimestamp, durationDays]);
+  }
+
+  publicDecrypt(handles: (string | Uint8Array)[]): Promise<PublicDecryptResults> {
+    return this.request('publicDecrypt', [handles]);
+  }
+
+  userDecrypt(...args: Parameters<FhevmInstance['userDecrypt']>): Promise<Record<string, ClearValueType>> {
+    return this.request('userDecrypt', args);
+  }
+
+  /**
+   * Stop the worker; calls still in flight reject with `RELAYER_UNAVAILABLE`
+   */
+  terminate(): void {
+    this.worker.terminate();
+    this.failAll(new FhevmError('RELAYER_UNAVAILABLE', 'FHEVM worker was terminated'));
+  }
+
+  private onMessage(response: WorkerResponse) {
+    if (response.type === 'progress') {
+      emitProgress({ id: response.id, stage: response.stage });
+      return;
+    }
+
+    const call = this.pending.get(response.id);
+    if (!call) return;
+    this.pending.delete(response.id);
+
+    if (response.type === 'result') {
+      call.resolve(response.result);
+    } else {
+      // SDK errors keep their code; relayer SDK errors are rebuilt as plain Errors so toFhevmError
+      // maps them exactly like a main-thread failure
+      const { name, message, code } = response.error;
+      const error = code ? new FhevmError(code, message) : new Error(message);
+      error.name = name;
+      call.reject(error);
+    }
+  }
+
+  private failAll(error: Error) {
+    for (const call of this.pending.values()) call.reject(error);
+    this.pending.clear();
+  }
+}
+
+/**
+ * Start the worker and create the relayer instance inside it
+ */
+export async function createWorkerFheInstance(options: WorkerInitOptions): Promise<WorkerFhevmInstance> {
+  if (!isWorkerSupported()) {
+    throw new FhevmError('NOT_INITIALIZED', 'Web Workers are not available in this environment');
+  }
+
+  // Pointing at the source lets the app's bundler compile the worker and its imports into one chunk
+  const worker = new Worker(new URL('./fhevm.worker.ts', import.meta.url), { type: 'module', name: 'fhevm' });
+  const instance = new WorkerFhevmInstance(worker);
+  try {
+    await instance.request('init', [options]);
+    logger.info('Worker instance created', { relayerUrl: options.relayerUrl });
+    return instance;
+  } catch (err) {
+    instance.terminate();
+    throw err;
+  }
+}
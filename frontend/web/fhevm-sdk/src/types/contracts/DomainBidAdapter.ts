@@ -0,0 +1,1540 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import type {
+  BaseContract,
+  BigNumberish,
+  BytesLike,
+  FunctionFragment,
+  Result,
+  Interface,
+  EventFragment,
+  AddressLike,
+  ContractRunner,
+  ContractMethod,
+  Listener,
+} from "ethers";
+import type {
+  TypedContractEvent,
+  TypedDeferredTopicFilter,
+  TypedEventLog,
+  TypedLogDescription,
+  TypedListener,
+  TypedContractMethod,
+} from "./common";
+
+export interface DomainBidAdapterInterface extends Interface {
+  getFunction(
+    nameOrSignature:
+      | "MAX_BIDDING_DURATION"
+      | "MAX_REVEAL_DURATION"
+      | "MIN_REVEAL_DURATION"
+      | "PRICE_UNIT"
+      | "PROTOCOL_FEE_BPS"
+      | "approve"
+      | "auctionRound"
+      | "balanceOf"
+      | "cancelAuction"
+      | "claimRefund"
+      | "closeAuction"
+      | "confidentialProtocolId"
+      | "createAuction"
+      | "domainNames"
+      | "domainRegistered"
+      | "domainTokenId"
+      | "getAllDomainNames"
+      | "getApproved"
+      | "getAuction"
+      | "getBidCount"
+      | "getBidDetails"
+      | "getBidIndex"
+      | "getDomainToken"
+      | "getEncryptedBid"
+      | "getEncryptedReserve"
+      | "getEncryptedWinner"
+      | "getRoundBid"
+      | "isApprovedForAll"
+      | "isDomainRegistered"
+      | "name"
+      | "ownerOf"
+      | "pendingWithdrawals"
+      | "placeBid"
+      | "registeredAt"
+      | "revealBids"
+      | "safeTransferFrom(address,address,uint256)"
+      | "safeTransferFrom(address,address,uint256,bytes)"
+      | "setApprovalForAll"
+      | "settleAuction"
+      | "supportsInterface"
+      | "symbol"
+      | "tokenURI"
+      | "transferFrom"
+      | "treasury"
+      | "verifyWinner"
+      | "withdrawFunds"
+  ): FunctionFragment;
+
+  getEvent(
+    nameOrSignatureOrTopic:
+      | "Approval"
+      | "ApprovalForAll"
+      | "AuctionCancelled"
+      | "AuctionClosed"
+      | "AuctionCreated"
+      | "AuctionSettled"
+      | "BidPlaced"
+      | "BidsRevealed"
+      | "DomainRegistered"
+      | "FundsCredited"
+      | "FundsWithdrawn"
+      | "PublicDecryptionVerified"
+      | "ReserveNotMet"
+      | "Transfer"
+      | "WinnerVerified"
+  ): EventFragment;
+
+  encodeFunctionData(
+    functionFragment: "MAX_BIDDING_DURATION",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "MAX_REVEAL_DURATION",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "MIN_REVEAL_DURATION",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "PRICE_UNIT",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "PROTOCOL_FEE_BPS",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "approve",
+    values: [AddressLike, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "auctionRound",
+    values: [string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "balanceOf",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "cancelAuction",
+    values: [string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "claimRefund",
+    values: [string, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "closeAuction",
+    values: [string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "confidentialProtocolId",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "createAuction",
+    values: [string, BytesLike, BytesLike, BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "domainNames",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "domainRegistered",
+    values: [string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "domainTokenId",
+    values: [string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getAllDomainNames",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getApproved",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(functionFragment: "getAuction", values: [string]): string;
+  encodeFunctionData(functionFragment: "getBidCount", values: [string]): string;
+  encodeFunctionData(
+    functionFragment: "getBidDetails",
+    values: [string, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getBidIndex",
+    values: [string, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getDomainToken",
+    values: [string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getEncryptedBid",
+    values: [string, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getEncryptedReserve",
+    values: [string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getEncryptedWinner",
+    values: [string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getRoundBid",
+    values: [string, BigNumberish, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "isApprovedForAll",
+    values: [AddressLike, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "isDomainRegistered",
+    values: [string]
+  ): string;
+  encodeFunctionData(functionFragment: "name", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "ownerOf",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "pendingWithdrawals",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "placeBid",
+    values: [string, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "registeredAt",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "revealBids",
+    values: [string, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "safeTransferFrom(address,address,uint256)",
+    values: [AddressLike, AddressLike, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "safeTransferFrom(address,address,uint256,bytes)",
+    values: [AddressLike, AddressLike, BigNumberish, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setApprovalForAll",
+    values: [AddressLike, boolean]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "settleAuction",
+    values: [string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "supportsInterface",
+    values: [BytesLike]
+  ): string;
+  encodeFunctionData(functionFragment: "symbol", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "tokenURI",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "transferFrom",
+    values: [AddressLike, AddressLike, BigNumberish]
+  ): string;
+  encodeFunctionData(functionFragment: "treasury", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "verifyWinner",
+    values: [string, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "withdrawFunds",
+    values?: undefined
+  ): string;
+
+  decodeFunctionResult(
+    functionFragment: "MAX_BIDDING_DURATION",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "MAX_REVEAL_DURATION",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "MIN_REVEAL_DURATION",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "PRICE_UNIT", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "PROTOCOL_FEE_BPS",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "approve", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "auctionRound",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "balanceOf", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "cancelAuction",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "claimRefund",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "closeAuction",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "confidentialProtocolId",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "createAuction",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "domainNames",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "domainRegistered",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "domainTokenId",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getAllDomainNames",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getApproved",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "getAuction", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "getBidCount",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getBidDetails",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getBidIndex",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getDomainToken",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getEncryptedBid",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getEncryptedReserve",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getEncryptedWinner",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getRoundBid",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "isApprovedForAll",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "isDomainRegistered",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "name", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "ownerOf", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "pendingWithdrawals",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "placeBid", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "registeredAt",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "revealBids", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "safeTransferFrom(address,address,uint256)",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "safeTransferFrom(address,address,uint256,bytes)",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setApprovalForAll",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "settleAuction",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "supportsInterface",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "symbol", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "tokenURI", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "transferFrom",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "treasury", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "verifyWinner",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "withdrawFunds",
+    data: BytesLike
+  ): Result;
+}
+
+export namespace ApprovalEvent {
+  export type InputTuple = [
+    owner: AddressLike,
+    approved: AddressLike,
+    tokenId: BigNumberish
+  ];
+  export type OutputTuple = [owner: string, approved: string, tokenId: bigint];
+  export interface OutputObject {
+    owner: string;
+    approved: string;
+    tokenId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ApprovalForAllEvent {
+  export type InputTuple = [
+    owner: AddressLike,
+    operator: AddressLike,
+    approved: boolean
+  ];
+  export type OutputTuple = [
+    owner: string,
+    operator: string,
+    approved: boolean
+  ];
+  export interface OutputObject {
+    owner: string;
+    operator: string;
+    approved: boolean;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace AuctionCancelledEvent {
+  export type InputTuple = [domainName: string];
+  export type OutputTuple = [domainName: string];
+  export interface OutputObject {
+    domainName: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace AuctionClosedEvent {
+  export type InputTuple = [domainName: string, bidCount: BigNumberish];
+  export type OutputTuple = [domainName: string, bidCount: bigint];
+  export interface OutputObject {
+    domainName: string;
+    bidCount: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace AuctionCreatedEvent {
+  export type InputTuple = [
+    domainName: string,
+    seller: AddressLike,
+    biddingEnd: BigNumberish,
+    revealEnd: BigNumberish
+  ];
+  export type OutputTuple = [
+    domainName: string,
+    seller: string,
+    biddingEnd: bigint,
+    revealEnd: bigint
+  ];
+  export interface OutputObject {
+    domainName: string;
+    seller: string;
+    biddingEnd: bigint;
+    revealEnd: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace AuctionSettledEvent {
+  export type InputTuple = [
+    domainName: string,
+    winner: AddressLike,
+    winningPrice: BigNumberish
+  ];
+  export type OutputTuple = [
+    domainName: string,
+    winner: string,
+    winningPrice: bigint
+  ];
+  export interface OutputObject {
+    domainName: string;
+    winner: string;
+    winningPrice: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace BidPlacedEvent {
+  export type InputTuple = [
+    domainName: string,
+    bidder: AddressLike,
+    bidIndex: BigNumberish
+  ];
+  export type OutputTuple = [
+    domainName: string,
+    bidder: string,
+    bidIndex: bigint
+  ];
+  export interface OutputObject {
+    domainName: string;
+    bidder: string;
+    bidIndex: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace BidsRevealedEvent {
+  export type InputTuple = [domainName: string, revealedBidCount: BigNumberish];
+  export type OutputTuple = [domainName: string, revealedBidCount: bigint];
+  export interface OutputObject {
+    domainName: string;
+    revealedBidCount: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace DomainRegisteredEvent {
+  export type InputTuple = [
+    domainName: string,
+    tokenId: BigNumberish,
+    owner: AddressLike
+  ];
+  export type OutputTuple = [
+    domainName: string,
+    tokenId: bigint,
+    owner: string
+  ];
+  export interface OutputObject {
+    domainName: string;
+    tokenId: bigint;
+    owner: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace FundsCreditedEvent {
+  export type InputTuple = [
+    domainName: string,
+    account: AddressLike,
+    amount: BigNumberish
+  ];
+  export type OutputTuple = [
+    domainName: string,
+    account: string,
+    amount: bigint
+  ];
+  export interface OutputObject {
+    domainName: string;
+    account: string;
+    amount: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace FundsWithdrawnEvent {
+  export type InputTuple = [account: AddressLike, amount: BigNumberish];
+  export type OutputTuple = [account: string, amount: bigint];
+  export interface OutputObject {
+    account: string;
+    amount: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace PublicDecryptionVerifiedEvent {
+  export type InputTuple = [
+    handlesList: BytesLike[],
+    abiEncodedCleartexts: BytesLike
+  ];
+  export type OutputTuple = [
+    handlesList: string[],
+    abiEncodedCleartexts: string
+  ];
+  export interface OutputObject {
+    handlesList: string[];
+    abiEncodedCleartexts: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ReserveNotMetEvent {
+  export type InputTuple = [domainName: string];
+  export type OutputTuple = [domainName: string];
+  export interface OutputObject {
+    domainName: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace TransferEvent {
+  export type InputTuple = [
+    from: AddressLike,
+    to: AddressLike,
+    tokenId: BigNumberish
+  ];
+  export type OutputTuple = [from: string, to: string, tokenId: bigint];
+  export interface OutputObject {
+    from: string;
+    to: string;
+    tokenId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace WinnerVerifiedEvent {
+  export type InputTuple = [
+    domainName: string,
+    winner: AddressLike,
+    winningPrice: BigNumberish
+  ];
+  export type OutputTuple = [
+    domainName: string,
+    winner: string,
+    winningPrice: bigint
+  ];
+  export interface OutputObject {
+    domainName: string;
+    winner: string;
+    winningPrice: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export interface DomainBidAdapter extends BaseContract {
+  connect(runner?: ContractRunner | null): DomainBidAdapter;
+  waitForDeployment(): Promise<this>;
+
+  interface: DomainBidAdapterInterface;
+
+  queryFilter<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+  queryFilter<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+
+  on<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  on<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  once<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  once<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  listeners<TCEvent extends TypedContractEvent>(
+    event: TCEvent
+  ): Promise<Array<TypedListener<TCEvent>>>;
+  listeners(eventName?: string): Promise<Array<Listener>>;
+  removeAllListeners<TCEvent extends TypedContractEvent>(
+    event?: TCEvent
+  ): Promise<this>;
+
+  MAX_BIDDING_DURATION: TypedContractMethod<[], [bigint], "view">;
+
+  MAX_REVEAL_DURATION: TypedContractMethod<[], [bigint], "view">;
+
+  MIN_REVEAL_DURATION: TypedContractMethod<[], [bigint], "view">;
+
+  PRICE_UNIT: TypedContractMethod<[], [bigint], "view">;
+
+  PROTOCOL_FEE_BPS: TypedContractMethod<[], [bigint], "view">;
+
+  approve: TypedContractMethod<
+    [to: AddressLike, tokenId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  auctionRound: TypedContractMethod<[arg0: string], [bigint], "view">;
+
+  balanceOf: TypedContractMethod<[owner: AddressLike], [bigint], "view">;
+
+  cancelAuction: TypedContractMethod<
+    [domainName: string],
+    [void],
+    "nonpayable"
+  >;
+
+  claimRefund: TypedContractMethod<
+    [domainName: string, round: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  closeAuction: TypedContractMethod<[domainName: string], [void], "nonpayable">;
+
+  confidentialProtocolId: TypedContractMethod<[], [bigint], "view">;
+
+  createAuction: TypedContractMethod<
+    [
+      domainName: string,
+      encryptedReservePrice: BytesLike,
+      inputProof: BytesLike,
+      biddingEnd: BigNumberish,
+      revealEnd: BigNumberish
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  domainNames: TypedContractMethod<[arg0: BigNumberish], [string], "view">;
+
+  domainRegistered: TypedContractMethod<[arg0: string], [boolean], "view">;
+
+  domainTokenId: TypedContractMethod<[domainName: string], [bigint], "view">;
+
+  getAllDomainNames: TypedContractMethod<[], [string[]], "view">;
+
+  getApproved: TypedContractMethod<[tokenId: BigNumberish], [string], "view">;
+
+  getAuction: TypedContractMethod<
+    [domainName: string],
+    [
+      [
+        string,
+        bigint,
+        bigint,
+        bigint,
+        bigint,
+        string,
+        bigint,
+        boolean,
+        boolean,
+        bigint
+      ] & {
+        seller: string;
+        biddingEnd: bigint;
+        revealEnd: bigint;
+        state: bigint;
+        bidCount: bigint;
+        winner: string;
+        winningPrice: bigint;
+        reserveChecked: boolean;
+        reserveMet: boolean;
+        revealedBidCount: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  getBidCount: TypedContractMethod<[domainName: string], [bigint], "view">;
+
+  getBidDetails: TypedContractMethod<
+    [domainName: string, bidIndex: BigNumberish],
+    [
+      [bigint, string, bigint, boolean] & {
+        deposit: bigint;
+        bidder: string;
+        bidTime: bigint;
+        isRefunded: boolean;
+      }
+    ],
+    "view"
+  >;
+
+  getBidIndex: TypedContractMethod<
+    [domainName: string, bidder: AddressLike],
+    [bigint],
+    "view"
+  >;
+
+  getDomainToken: TypedContractMethod<
+    [domainName: string],
+    [
+      [bigint, string, bigint] & {
+        tokenId: bigint;
+        owner: string;
+        registrationDate: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  getEncryptedBid: TypedContractMethod<
+    [domainName: string, bidIndex: BigNumberish],
+    [string],
+    "view"
+  >;
+
+  getEncryptedReserve: TypedContractMethod<
+    [domainName: string],
+    [string],
+    "view"
+  >;
+
+  getEncryptedWinner: TypedContractMethod<
+    [domainName: string],
+    [
+      [string, string, string] & {
+        winner: string;
+        price: string;
+        reserveMet: string;
+      }
+    ],
+    "view"
+  >;
+
+  getRoundBid: TypedContractMethod<
+    [domainName: string, round: BigNumberish, bidder: AddressLike],
+    [
+      [boolean, bigint, boolean] & {
+        exists: boolean;
+        deposit: bigint;
+        isRefunded: boolean;
+      }
+    ],
+    "view"
+  >;
+
+  isApprovedForAll: TypedContractMethod<
+    [owner: AddressLike, operator: AddressLike],
+    [boolean],
+    "view"
+  >;
+
+  isDomainRegistered: TypedContractMethod<
+    [domainName: string],
+    [boolean],
+    "view"
+  >;
+
+  name: TypedContractMethod<[], [string], "view">;
+
+  ownerOf: TypedContractMethod<[tokenId: BigNumberish], [string], "view">;
+
+  pendingWithdrawals: TypedContractMethod<
+    [arg0: AddressLike],
+    [bigint],
+    "view"
+  >;
+
+  placeBid: TypedContractMethod<
+    [domainName: string, encryptedBidAmount: BytesLike, inputProof: BytesLike],
+    [void],
+    "payable"
+  >;
+
+  registeredAt: TypedContractMethod<[arg0: BigNumberish], [bigint], "view">;
+
+  revealBids: TypedContractMethod<
+    [domainName: string, maxCount: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  "safeTransferFrom(address,address,uint256)": TypedContractMethod<
+    [from: AddressLike, to: AddressLike, tokenId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  "safeTransferFrom(address,address,uint256,bytes)": TypedContractMethod<
+    [
+      from: AddressLike,
+      to: AddressLike,
+      tokenId: BigNumberish,
+      data: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  setApprovalForAll: TypedContractMethod<
+    [operator: AddressLike, approved: boolean],
+    [void],
+    "nonpayable"
+  >;
+
+  settleAuction: TypedContractMethod<
+    [domainName: string],
+    [void],
+    "nonpayable"
+  >;
+
+  supportsInterface: TypedContractMethod<
+    [interfaceId: BytesLike],
+    [boolean],
+    "view"
+  >;
+
+  symbol: TypedContractMethod<[], [string], "view">;
+
+  tokenURI: TypedContractMethod<[tokenId: BigNumberish], [string], "view">;
+
+  transferFrom: TypedContractMethod<
+    [from: AddressLike, to: AddressLike, tokenId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  treasury: TypedContractMethod<[], [string], "view">;
+
+  verifyWinner: TypedContractMethod<
+    [
+      domainName: string,
+      abiEncodedClearValues: BytesLike,
+      decryptionProof: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  withdrawFunds: TypedContractMethod<[], [void], "nonpayable">;
+
+  getFunction<T extends ContractMethod = ContractMethod>(
+    key: string | FunctionFragment
+  ): T;
+
+  getFunction(
+    nameOrSignature: "MAX_BIDDING_DURATION"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "MAX_REVEAL_DURATION"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "MIN_REVEAL_DURATION"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "PRICE_UNIT"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "PROTOCOL_FEE_BPS"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "approve"
+  ): TypedContractMethod<
+    [to: AddressLike, tokenId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "auctionRound"
+  ): TypedContractMethod<[arg0: string], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "balanceOf"
+  ): TypedContractMethod<[owner: AddressLike], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "cancelAuction"
+  ): TypedContractMethod<[domainName: string], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "claimRefund"
+  ): TypedContractMethod<
+    [domainName: string, round: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "closeAuction"
+  ): TypedContractMethod<[domainName: string], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "confidentialProtocolId"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "createAuction"
+  ): TypedContractMethod<
+    [
+      domainName: string,
+      encryptedReservePrice: BytesLike,
+      inputProof: BytesLike,
+      biddingEnd: BigNumberish,
+      revealEnd: BigNumberish
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "domainNames"
+  ): TypedContractMethod<[arg0: BigNumberish], [string], "view">;
+  getFunction(
+    nameOrSignature: "domainRegistered"
+  ): TypedContractMethod<[arg0: string], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "domainTokenId"
+  ): TypedContractMethod<[domainName: string], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "getAllDomainNames"
+  ): TypedContractMethod<[], [string[]], "view">;
+  getFunction(
+    nameOrSignature: "getApproved"
+  ): TypedContractMethod<[tokenId: BigNumberish], [string], "view">;
+  getFunction(
+    nameOrSignature: "getAuction"
+  ): TypedContractMethod<
+    [domainName: string],
+    [
+      [
+        string,
+        bigint,
+        bigint,
+        bigint,
+        bigint,
+        string,
+        bigint,
+        boolean,
+        boolean,
+        bigint
+      ] & {
+        seller: string;
+        biddingEnd: bigint;
+        revealEnd: bigint;
+        state: bigint;
+        bidCount: bigint;
+        winner: string;
+        winningPrice: bigint;
+        reserveChecked: boolean;
+        reserveMet: boolean;
+        revealedBidCount: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getBidCount"
+  ): TypedContractMethod<[domainName: string], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "getBidDetails"
+  ): TypedContractMethod<
+    [domainName: string, bidIndex: BigNumberish],
+    [
+      [bigint, string, bigint, boolean] & {
+        deposit: bigint;
+        bidder: string;
+        bidTime: bigint;
+        isRefunded: boolean;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getBidIndex"
+  ): TypedContractMethod<
+    [domainName: string, bidder: AddressLike],
+    [bigint],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getDomainToken"
+  ): TypedContractMethod<
+    [domainName: string],
+    [
+      [bigint, string, bigint] & {
+        tokenId: bigint;
+        owner: string;
+        registrationDate: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getEncryptedBid"
+  ): TypedContractMethod<
+    [domainName: string, bidIndex: BigNumberish],
+    [string],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getEncryptedReserve"
+  ): TypedContractMethod<[domainName: string], [string], "view">;
+  getFunction(
+    nameOrSignature: "getEncryptedWinner"
+  ): TypedContractMethod<
+    [domainName: string],
+    [
+      [string, string, string] & {
+        winner: string;
+        price: string;
+        reserveMet: string;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getRoundBid"
+  ): TypedContractMethod<
+    [domainName: string, round: BigNumberish, bidder: AddressLike],
+    [
+      [boolean, bigint, boolean] & {
+        exists: boolean;
+        deposit: bigint;
+        isRefunded: boolean;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "isApprovedForAll"
+  ): TypedContractMethod<
+    [owner: AddressLike, operator: AddressLike],
+    [boolean],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "isDomainRegistered"
+  ): TypedContractMethod<[domainName: string], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "name"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "ownerOf"
+  ): TypedContractMethod<[tokenId: BigNumberish], [string], "view">;
+  getFunction(
+    nameOrSignature: "pendingWithdrawals"
+  ): TypedContractMethod<[arg0: AddressLike], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "placeBid"
+  ): TypedContractMethod<
+    [domainName: string, encryptedBidAmount: BytesLike, inputProof: BytesLike],
+    [void],
+    "payable"
+  >;
+  getFunction(
+    nameOrSignature: "registeredAt"
+  ): TypedContractMethod<[arg0: BigNumberish], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "revealBids"
+  ): TypedContractMethod<
+    [domainName: string, maxCount: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "safeTransferFrom(address,address,uint256)"
+  ): TypedContractMethod<
+    [from: AddressLike, to: AddressLike, tokenId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "safeTransferFrom(address,address,uint256,bytes)"
+  ): TypedContractMethod<
+    [
+      from: AddressLike,
+      to: AddressLike,
+      tokenId: BigNumberish,
+      data: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "setApprovalForAll"
+  ): TypedContractMethod<
+    [operator: AddressLike, approved: boolean],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "settleAuction"
+  ): TypedContractMethod<[domainName: string], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "supportsInterface"
+  ): TypedContractMethod<[interfaceId: BytesLike], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "symbol"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "tokenURI"
+  ): TypedContractMethod<[tokenId: BigNumberish], [string], "view">;
+  getFunction(
+    nameOrSignature: "transferFrom"
+  ): TypedContractMethod<
+    [from: AddressLike, to: AddressLike, tokenId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "treasury"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "verifyWinner"
+  ): TypedContractMethod<
+    [
+      domainName: string,
+      abiEncodedClearValues: BytesLike,
+      decryptionProof: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "withdrawFunds"
+  ): TypedContractMethod<[], [void], "nonpayable">;
+
+  getEvent(
+    key: "Approval"
+  ): TypedContractEvent<
+    ApprovalEvent.InputTuple,
+    ApprovalEvent.OutputTuple,
+    ApprovalEvent.OutputObject
+  >;
+  getEvent(
+    key: "ApprovalForAll"
+  ): TypedContractEvent<
+    ApprovalForAllEvent.InputTuple,
+    ApprovalForAllEvent.OutputTuple,
+    ApprovalForAllEvent.OutputObject
+  >;
+  getEvent(
+    key: "AuctionCancelled"
+  ): TypedContractEvent<
+    AuctionCancelledEvent.InputTuple,
+    AuctionCancelledEvent.OutputTuple,
+    AuctionCancelledEvent.OutputObject
+  >;
+  getEvent(
+    key: "AuctionClosed"
+  ): TypedContractEvent<
+    AuctionClosedEvent.InputTuple,
+    AuctionClosedEvent.OutputTuple,
+    AuctionClosedEvent.OutputObject
+  >;
+  getEvent(
+    key: "AuctionCreated"
+  ): TypedContractEvent<
+    AuctionCreatedEvent.InputTuple,
+    AuctionCreatedEvent.OutputTuple,
+    AuctionCreatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "AuctionSettled"
+  ): TypedContractEvent<
+    AuctionSettledEvent.InputTuple,
+    AuctionSettledEvent.OutputTuple,
+    AuctionSettledEvent.OutputObject
+  >;
+  getEvent(
+    key: "BidPlaced"
+  ): TypedContractEvent<
+    BidPlacedEvent.InputTuple,
+    BidPlacedEvent.OutputTuple,
+    BidPlacedEvent.OutputObject
+  >;
+  getEvent(
+    key: "BidsRevealed"
+  ): TypedContractEvent<
+    BidsRevealedEvent.InputTuple,
+    BidsRevealedEvent.OutputTuple,
+    BidsRevealedEvent.OutputObject
+  >;
+  getEvent(
+    key: "DomainRegistered"
+  ): TypedContractEvent<
+    DomainRegisteredEvent.InputTuple,
+    DomainRegisteredEvent.OutputTuple,
+    DomainRegisteredEvent.OutputObject
+  >;
+  getEvent(
+    key: "FundsCredited"
+  ): TypedContractEvent<
+    FundsCreditedEvent.InputTuple,
+    FundsCreditedEvent.OutputTuple,
+    FundsCreditedEvent.OutputObject
+  >;
+  getEvent(
+    key: "FundsWithdrawn"
+  ): TypedContractEvent<
+    FundsWithdrawnEvent.InputTuple,
+    FundsWithdrawnEvent.OutputTuple,
+    FundsWithdrawnEvent.OutputObject
+  >;
+  getEvent(
+    key: "PublicDecryptionVerified"
+  ): TypedContractEvent<
+    PublicDecryptionVerifiedEvent.InputTuple,
+    PublicDecryptionVerifiedEvent.OutputTuple,
+    PublicDecryptionVerifiedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ReserveNotMet"
+  ): TypedContractEvent<
+    ReserveNotMetEvent.InputTuple,
+    ReserveNotMetEvent.OutputTuple,
+    ReserveNotMetEvent.OutputObject
+  >;
+  getEvent(
+    key: "Transfer"
+  ): TypedContractEvent<
+    TransferEvent.InputTuple,
+    TransferEvent.OutputTuple,
+    TransferEvent.OutputObject
+  >;
+  getEvent(
+    key: "WinnerVerified"
+  ): TypedContractEvent<
+    WinnerVerifiedEvent.InputTuple,
+    WinnerVerifiedEvent.OutputTuple,
+    WinnerVerifiedEvent.OutputObject
+  >;
+
+  filters: {
+    "Approval(address,address,uint256)": TypedContractEvent<
+      ApprovalEvent.InputTuple,
+      ApprovalEvent.OutputTuple,
+      ApprovalEvent.OutputObject
+    >;
+    Approval: TypedContractEvent<
+      ApprovalEvent.InputTuple,
+      ApprovalEvent.OutputTuple,
+      ApprovalEvent.OutputObject
+    >;
+
+    "ApprovalForAll(address,address,bool)": TypedContractEvent<
+      ApprovalForAllEvent.InputTuple,
+      ApprovalForAllEvent.OutputTuple,
+      ApprovalForAllEvent.OutputObject
+    >;
+    ApprovalForAll: TypedContractEvent<
+      ApprovalForAllEvent.InputTuple,
+      ApprovalForAllEvent.OutputTuple,
+      ApprovalForAllEvent.OutputObject
+    >;
+
+    "AuctionCancelled(string)": TypedContractEvent<
+      AuctionCancelledEvent.InputTuple,
+      AuctionCancelledEvent.OutputTuple,
+      AuctionCancelledEvent.OutputObject
+    >;
+    AuctionCancelled: TypedContractEvent<
+      AuctionCancelledEvent.InputTuple,
+      AuctionCancelledEvent.OutputTuple,
+      AuctionCancelledEvent.OutputObject
+    >;
+
+    "AuctionClosed(string,uint256)": TypedContractEvent<
+      AuctionClosedEvent.InputTuple,
+      AuctionClosedEvent.OutputTuple,
+      AuctionClosedEvent.OutputObject
+    >;
+    AuctionClosed: TypedContractEvent<
+      AuctionClosedEvent.InputTuple,
+      AuctionClosedEvent.OutputTuple,
+      AuctionClosedEvent.OutputObject
+    >;
+
+    "AuctionCreated(string,address,uint256,uint256)": TypedContractEvent<
+      AuctionCreatedEvent.InputTuple,
+      AuctionCreatedEvent.OutputTuple,
+      AuctionCreatedEvent.OutputObject
+    >;
+    AuctionCreated: TypedContractEvent<
+      AuctionCreatedEvent.InputTuple,
+      AuctionCreatedEvent.OutputTuple,
+      AuctionCreatedEvent.OutputObject
+    >;
+
+    "AuctionSettled(string,address,uint32)": TypedContractEvent<
+      AuctionSettledEvent.InputTuple,
+      AuctionSettledEvent.OutputTuple,
+      AuctionSettledEvent.OutputObject
+    >;
+    AuctionSettled: TypedContractEvent<
+      AuctionSettledEvent.InputTuple,
+      AuctionSettledEvent.OutputTuple,
+      AuctionSettledEvent.OutputObject
+    >;
+
+    "BidPlaced(string,address,uint256)": TypedContractEvent<
+      BidPlacedEvent.InputTuple,
+      BidPlacedEvent.OutputTuple,
+      BidPlacedEvent.OutputObject
+    >;
+    BidPlaced: TypedContractEvent<
+      BidPlacedEvent.InputTuple,
+      BidPlacedEvent.OutputTuple,
+      BidPlacedEvent.OutputObject
+    >;
+
+    "BidsRevealed(string,uint256)": TypedContractEvent<
+      BidsRevealedEvent.InputTuple,
+      BidsRevealedEvent.OutputTuple,
+      BidsRevealedEvent.OutputObject
+    >;
+    BidsRevealed: TypedContractEvent<
+      BidsRevealedEvent.InputTuple,
+      BidsRevealedEvent.OutputTuple,
+      BidsRevealedEvent.OutputObject
+    >;
+
+    "DomainRegistered(string,uint256,address)": TypedContractEvent<
+      DomainRegisteredEvent.InputTuple,
+      DomainRegisteredEvent.OutputTuple,
+      DomainRegisteredEvent.OutputObject
+    >;
+    DomainRegistered: TypedContractEvent<
+      DomainRegisteredEvent.InputTuple,
+      DomainRegisteredEvent.OutputTuple,
+      DomainRegisteredEvent.OutputObject
+    >;
+
+    "FundsCredited(string,address,uint256)": TypedContractEvent<
+      FundsCreditedEvent.InputTuple,
+      FundsCreditedEvent.OutputTuple,
+      FundsCreditedEvent.OutputObject
+    >;
+    FundsCredited: TypedContractEvent<
+      FundsCreditedEvent.InputTuple,
+      FundsCreditedEvent.OutputTuple,
+      FundsCreditedEvent.OutputObject
+    >;
+
+    "FundsWithdrawn(address,uint256)": TypedContractEvent<
+      FundsWithdrawnEvent.InputTuple,
+      FundsWithdrawnEvent.OutputTuple,
+      FundsWithdrawnEvent.OutputObject
+    >;
+    FundsWithdrawn: TypedContractEvent<
+      FundsWithdrawnEvent.InputTuple,
+      FundsWithdrawnEvent.OutputTuple,
+      FundsWithdrawnEvent.OutputObject
+    >;
+
+    "PublicDecryptionVerified(bytes32[],bytes)": TypedContractEvent<
+      PublicDecryptionVerifiedEvent.InputTuple,
+      PublicDecryptionVerifiedEvent.OutputTuple,
+      PublicDecryptionVerifiedEvent.OutputObject
+    >;
+    PublicDecryptionVerified: TypedContractEvent<
+      PublicDecryptionVerifiedEvent.InputTuple,
+      PublicDecryptionVerifiedEvent.OutputTuple,
+      PublicDecryptionVerifiedEvent.OutputObject
+    >;
+
+    "ReserveNotMet(string)": TypedContractEvent<
+      ReserveNotMetEvent.InputTuple,
+      ReserveNotMetEvent.OutputTuple,
+      ReserveNotMetEvent.OutputObject
+    >;
+    ReserveNotMet: TypedContractEvent<
+      ReserveNotMetEvent.InputTuple,
+      ReserveNotMetEvent.OutputTuple,
+      ReserveNotMetEvent.OutputObject
+    >;
+
+    "Transfer(address,address,uint256)": TypedContractEvent<
+      TransferEvent.InputTuple,
+      TransferEvent.OutputTuple,
+      TransferEvent.OutputObject
+    >;
+    Transfer: TypedContractEvent<
+      TransferEvent.InputTuple,
+      TransferEvent.OutputTuple,
+      TransferEvent.OutputObject
+    >;
+
+    "WinnerVerified(string,address,uint32)": TypedContractEvent<
+      WinnerVerifiedEvent.InputTuple,
+      WinnerVerifiedEvent.OutputTuple,
+      WinnerVerifiedEvent.OutputObject
+    >;
+    WinnerVerified: TypedContractEvent<
+      WinnerVerifiedEvent.InputTuple,
+      WinnerVerifiedEvent.OutputTuple,
+      WinnerVerifiedEvent.OutputObject
+    >;
+  };
+}
@@ -0,0 +1,6 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+export type { DomainBidAdapter } from "./DomainBidAdapter";
+export * as factories from "./factories";
+export { DomainBidAdapter__factory } from "./factories/DomainBidAdapter__factory";
@@ -0,0 +1,5 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+export * as fheSol from "./FHE.sol";
+export * as implSol from "./Impl.sol";
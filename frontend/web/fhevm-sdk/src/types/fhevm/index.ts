@@ -0,0 +1,12 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import type * as fheSol from "./FHE.sol";
+export type { fheSol };
+import type * as implSol from "./Impl.sol";
+export type { implSol };
+export * as factories from "./factories";
+export type { IACL } from "./Impl.sol/IACL";
+export { IACL__factory } from "./factories/Impl.sol/IACL__factory";
+export type { IKMSVerifier } from "./FHE.sol/IKMSVerifier";
+export { IKMSVerifier__factory } from "./factories/FHE.sol/IKMSVerifier__factory";
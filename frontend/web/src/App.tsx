@@ -4,50 +4,114 @@ import React, { useState, useEffect } from "react";
 import { getContractReadOnly, getContractWithSigner } from "./components/useContract";
 import "./App.css";
 import { useAccount } from 'wagmi';
-import { useFhevm, useEncrypt, useDecrypt } from '../fhevm-sdk/src';
+import { 
+  useFhevm, 
+  useEncrypt, 
+  useDecrypt, 
+  useFhevmActivity,
+  useFhevmEvent,
+  DomainBidClient, 
+  AuctionState, 
+  getAvailableActions, 
+  canClaimRefund, 
+  toPriceUnits, 
+  formatPriceUnits, 
+  isDepositSufficient,
+  MAX_BIDDING_DURATION,
+  MIN_REVEAL_DURATION,
+  MAX_REVEAL_DURATION,
+  FhevmError,
+  toFhevmError,
+  parseHandle,
+  validateHandle
+} from '../fhevm-sdk/src';
+import type { AuctionAction, AuctionBid, AuctionInfo, DecryptAccess, DomainToken, ParsedHandle } from '../fhevm-sdk/src';
 import { ethers } from 'ethers';
 
-interface DomainBid {
+interface DomainBid extends AuctionBid {
   id: string;
-  name: string;
-  encryptedBid: string;
-  publicValue1: number;
-  publicValue2: number;
-  description: string;
-  creator: string;
-  timestamp: number;
-  isVerified: boolean;
-  decryptedValue: number;
 }
 
+const STATE_LABELS: Record<AuctionState, string> = {
+  [AuctionState.Open]: "🟢 Open",
+  [AuctionState.Closed]: "🔒 Closed",
+  [AuctionState.Revealed]: "🔓 Revealed",
+  [AuctionState.Settled]: "✅ Settled",
+  [AuctionState.Cancelled]: "⛔ Cancelled",
+};
+
+const ACTION_LABELS: Record<AuctionAction, string> = {
+  bid: "Place Bid",
+  close: "Close Auction",
+  reveal: "Reveal Winner",
+  revealBids: "Reveal Bids",
+  settle: "Settle",
+  cancel: "Cancel",
+};
+
+const DAY = 24 * 60 * 60;
+
+const describeError = (e: unknown, fallback: string): string => {
+  const error = toFhevmError(e);
+  switch (error.code) {
+    case 'SIGNATURE_REJECTED': return "Transaction rejected";
+    case 'RELAYER_UNAVAILABLE': return "Relayer unavailable, try again later";
+    case 'ACL_DENIED': return error.message;
+    case 'PROOF_INVALID': return "Decryption proof rejected";
+    case 'CHAIN_MISMATCH': return "Switch to a supported network";
+    case 'NOT_INITIALIZED': return "FHEVM is not ready yet";
+    case 'CONTRACT_REVERT': return error.reason ?? fallback;
+    default: return fallback;
+  }
+};
+
 const App: React.FC = () => {
-  const { address, isConnected } = useAccount();
+  const { address, isConnected, chainId } = useAccount();
   const [loading, setLoading] = useState(true);
+  const [auctions, setAuctions] = useState<AuctionInfo[]>([]);
   const [domainBids, setDomainBids] = useState<DomainBid[]>([]);
   const [isRefreshing, setIsRefreshing] = useState(false);
-  const [showCreateModal, setShowCreateModal] = useState(false);
+  const [showCreateAuctionModal, setShowCreateAuctionModal] = useState(false);
+  const [creatingAuction, setCreatingAuction] = useState(false);
+  const [bidDomain, setBidDomain] = useState<string | null>(null);
   const [creatingBid, setCreatingBid] = useState(false);
+  const [pendingDomain, setPendingDomain] = useState<string | null>(null);
   const [transactionStatus, setTransactionStatus] = useState<{ visible: boolean; status: "pending" | "success" | "error"; message: string; }>({ 
     visible: false, 
     status: "pending" as const, 
     message: "" 
   });
-  const [newBidData, setNewBidData] = useState({ domain: "", bid: "", description: "" });
+  const [newAuctionData, setNewAuctionData] = useState({ domain: "", reserve: "", biddingDays: "7", revealDays: "2" });
+  const [newBidData, setNewBidData] = useState({ bid: "", deposit: "" });
   const [selectedBid, setSelectedBid] = useState<DomainBid | null>(null);
   const [isDecrypting, setIsDecrypting] = useState(false);
   const [contractAddress, setContractAddress] = useState("");
   const [fhevmInitializing, setFhevmInitializing] = useState(false);
   const [searchTerm, setSearchTerm] = useState("");
   const [showFAQ, setShowFAQ] = useState(false);
-  const [stats, setStats] = useState({ totalBids: 0, verifiedBids: 0, avgBid: 0 });
+  const [stats, setStats] = useState({ totalAuctions: 0, totalBids: 0, settledAuctions: 0 });
+  const [claimableBalance, setClaimableBalance] = useState<bigint>(0n);
+  const [pastRefunds, setPastRefunds] = useState<Record<string, number[]>>({});
+  const [claimingFunds, setClaimingFunds] = useState(false);
+  const [ownedDomains, setOwnedDomains] = useState<DomainToken[]>([]);
+  const [transferringDomain, setTransferringDomain] = useState<string | null>(null);
+
+  const { status, error: fhevmError, initialize, isInitialized } = useFhevm({ chainId, worker: true });
+  const { encrypt } = useEncrypt();
+  const { decrypt, decryptForUser, verifyDecryption, checkAccess } = useDecrypt();
+  const { isDecrypting: fheIsDecrypting } = useFhevmActivity();
 
-  const { status, initialize, isInitialized } = useFhevm();
-  const { encrypt, isEncrypting } = useEncrypt();
-  const { verifyDecryption, isDecrypting: fheIsDecrypting } = useDecrypt();
+  // Keep the pending transaction message honest while the relayer is being retried
+  useFhevmEvent('relayerError', ({ willRetry, attempt }) => {
+    if (!willRetry) return;
+    setTransactionStatus(current => current.visible && current.status === "pending"
+      ? { ...current, message: `Relayer busy, retrying (attempt ${attempt + 1})...` }
+      : current);
+  });
 
   useEffect(() => {
     const initFhevmAfterConnection = async () => {
-      if (!isConnected || isInitialized || fhevmInitializing) return;
+      if (!isConnected || status !== 'idle' || fhevmInitializing) return;
       
       try {
         setFhevmInitializing(true);
@@ -65,7 +129,7 @@ const App: React.FC = () => {
     };
 
     initFhevmAfterConnection();
-  }, [isConnected, isInitialized, initialize, fhevmInitializing]);
+  }, [isConnected, status, initialize, fhevmInitializing]);
 
   useEffect(() => {
     const loadDataAndContract = async () => {
@@ -86,41 +150,41 @@ const App: React.FC = () => {
     };
 
     loadDataAndContract();
-  }, [isConnected]);
+  }, [isConnected, chainId]);
+
+  const getDomainBidClient = async (withSigner = false): Promise<DomainBidClient | null> => 
+    withSigner ? getContractWithSigner() : getContractReadOnly();
 
   const loadData = async () => {
     if (!isConnected) return;
     
     setIsRefreshing(true);
     try {
-      const contract = await getContractReadOnly();
-      if (!contract) return;
+      const client = await getDomainBidClient();
+      if (!client) return;
       
-      const businessIds = await contract.getAllBusinessIds();
+      const auctionList = await client.getAuctions();
       const bidsList: DomainBid[] = [];
       
-      for (const businessId of businessIds) {
+      for (const auction of auctionList) {
         try {
-          const businessData = await contract.getBusinessData(businessId);
-          bidsList.push({
-            id: businessId,
-            name: businessData.name,
-            encryptedBid: businessId,
-            publicValue1: Number(businessData.publicValue1) || 0,
-            publicValue2: Number(businessData.publicValue2) || 0,
-            description: businessData.description,
-            creator: businessData.creator,
-            timestamp: Number(businessData.timestamp),
-            isVerified: businessData.isVerified,
-            decryptedValue: Number(businessData.decryptedValue) || 0
-          });
+          const bids = await client.getBids(auction.domainName);
+          bidsList.push(...bids.map(bid => ({ ...bid, id: `${bid.domainName}#${bid.bidIndex}` })));
         } catch (e) {
-          console.error('Error loading business data:', e);
+          console.error('Error loading domain bids:', e);
         }
       }
       
+      setAuctions(auctionList);
       setDomainBids(bidsList);
-      calculateStats(bidsList);
+      calculateStats(auctionList, bidsList);
+      if (address) {
+        setClaimableBalance(await client.getClaimableBalance(address));
+        const reauctioned = auctionList.filter(auction => auction.round > 0);
+        const rounds = await Promise.all(reauctioned.map(auction => client.getUnclaimedRefundRounds(auction.domainName, address)));
+        setPastRefunds(Object.fromEntries(reauctioned.map((auction, i) => [auction.domainName, rounds[i]])));
+        setOwnedDomains(await client.getOwnedDomains(address));
+      }
     } catch (e) {
       setTransactionStatus({ visible: true, status: "error", message: "Failed to load data" });
       setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
@@ -129,43 +193,91 @@ const App: React.FC = () => {
     }
   };
 
-  const calculateStats = (bids: DomainBid[]) => {
+  const calculateStats = (auctionList: AuctionInfo[], bids: DomainBid[]) => {
+    const totalAuctions = auctionList.length;
     const totalBids = bids.length;
-    const verifiedBids = bids.filter(b => b.isVerified).length;
-    const avgBid = bids.length > 0 
-      ? bids.reduce((sum, b) => sum + b.publicValue1, 0) / bids.length 
-      : 0;
+    const settledAuctions = auctionList.filter(a => a.state === AuctionState.Settled).length;
     
-    setStats({ totalBids, verifiedBids, avgBid });
+    setStats({ totalAuctions, totalBids, settledAuctions });
   };
 
-  const createBid = async () => {
+  const createAuction = async () => {
     if (!isConnected || !address) { 
       setTransactionStatus({ visible: true, status: "error", message: "Connect wallet first" });
       setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
       return; 
     }
     
+    let reserveUnits: number;
+    try {
+      reserveUnits = toPriceUnits(newAuctionData.reserve);
+    } catch {
+      setTransactionStatus({ visible: true, status: "error", message: "Enter the reserve as a plain ETH amount" });
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
+      return;
+    }
+    
+    setCreatingAuction(true);
+    setTransactionStatus({ visible: true, status: "pending", message: "Creating auction..." });
+    
+    try {
+      const client = await getDomainBidClient(true);
+      if (!client) throw new Error("Failed to get contract");
+      
+      const now = Math.floor(Date.now() / 1000);
+      const biddingEnd = now + (parseInt(newAuctionData.biddingDays) || 1) * DAY;
+      const revealEnd = biddingEnd + (parseInt(newAuctionData.revealDays) || 1) * DAY;
+      
+      const encryptedReserve = await encrypt(contractAddress, address, reserveUnits);
+      
+      const tx = await client.createAuction(
+        newAuctionData.domain,
+        encryptedReserve,
+        biddingEnd,
+        revealEnd
+      );
+      
+      setTransactionStatus({ visible: true, status: "pending", message: "Confirming transaction..." });
+      await tx.wait();
+      
+      setTransactionStatus({ visible: true, status: "success", message: "Auction created!" });
+      setTimeout(() => {
+        setTransactionStatus({ visible: false, status: "pending", message: "" });
+      }, 2000);
+      
+      await loadData();
+      setShowCreateAuctionModal(false);
+      setNewAuctionData({ domain: "", reserve: "", biddingDays: "7", revealDays: "2" });
+    } catch (e) {
+      const errorMessage = describeError(e, "Submission failed");
+      setTransactionStatus({ visible: true, status: "error", message: errorMessage });
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
+    } finally { 
+      setCreatingAuction(false); 
+    }
+  };
+
+  const createBid = async () => {
+    if (!isConnected || !address || !bidDomain) { 
+      setTransactionStatus({ visible: true, status: "error", message: "Connect wallet first" });
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
+      return; 
+    }
+    
     setCreatingBid(true);
     setTransactionStatus({ visible: true, status: "pending", message: "Creating encrypted bid..." });
     
     try {
-      const contract = await getContractWithSigner();
-      if (!contract) throw new Error("Failed to get contract");
-      
-      const bidValue = parseInt(newBidData.bid) || 0;
-      const businessId = `domainbid-${Date.now()}`;
+      const client = await getDomainBidClient(true);
+      if (!client) throw new Error("Failed to get contract");
       
+      const bidValue = toPriceUnits(newBidData.bid);
       const encryptedResult = await encrypt(contractAddress, address, bidValue);
       
-      const tx = await contract.createBusinessData(
-        businessId,
-        newBidData.domain,
-        encryptedResult.encryptedData,
-        encryptedResult.proof,
-        bidValue,
-        0,
-        newBidData.description
+      const tx = await client.placeBid(
+        bidDomain,
+        encryptedResult,
+        ethers.parseEther(newBidData.deposit || "0")
       );
       
       setTransactionStatus({ visible: true, status: "pending", message: "Confirming transaction..." });
@@ -177,12 +289,10 @@ const App: React.FC = () => {
       }, 2000);
       
       await loadData();
-      setShowCreateModal(false);
-      setNewBidData({ domain: "", bid: "", description: "" });
-    } catch (e: any) {
-      const errorMessage = e.message?.includes("user rejected") 
-        ? "Transaction rejected" 
-        : "Submission failed";
+      setBidDomain(null);
+      setNewBidData({ bid: "", deposit: "" });
+    } catch (e) {
+      const errorMessage = describeError(e, "Submission failed");
       setTransactionStatus({ visible: true, status: "error", message: errorMessage });
       setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
     } finally { 
@@ -190,7 +300,21 @@ const App: React.FC = () => {
     }
   };
 
-  const decryptBid = async (businessId: string): Promise<number | null> => {
+  const isOwnBid = (bid: DomainBid) => 
+    !!address && bid.bidder.toLowerCase() === address.toLowerCase();
+
+  const getBidHandle = async (bid: DomainBid): Promise<string | null> => {
+    const client = await getDomainBidClient();
+    return client ? client.getEncryptedBid(bid.domainName, bid.bidIndex) : null;
+  };
+
+  // Bids become public as revealBids reaches them after close; before that only the bidder was granted access
+  const checkBidAccess = async (bid: DomainBid): Promise<DecryptAccess | null> => {
+    const handle = await getBidHandle(bid);
+    return handle ? checkAccess(handle, contractAddress, address) : null;
+  };
+
+  const decryptBid = async (bid: DomainBid): Promise<number | null> => {
     if (!isConnected || !address) { 
       setTransactionStatus({ visible: true, status: "error", message: "Connect wallet first" });
       setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
@@ -199,69 +323,35 @@ const App: React.FC = () => {
     
     setIsDecrypting(true);
     try {
-      const contractRead = await getContractReadOnly();
-      if (!contractRead) return null;
-      
-      const businessData = await contractRead.getBusinessData(businessId);
-      if (businessData.isVerified) {
-        const storedValue = Number(businessData.decryptedValue) || 0;
-        
-        setTransactionStatus({ 
-          visible: true, 
-          status: "success", 
-          message: "Bid already verified" 
-        });
-        setTimeout(() => {
-          setTransactionStatus({ visible: false, status: "pending", message: "" });
-        }, 2000);
-        
-        return storedValue;
-      }
-      
-      const contractWrite = await getContractWithSigner();
-      if (!contractWrite) return null;
-      
-      const encryptedValueHandle = await contractRead.getEncryptedValue(businessId);
+      const client = await getDomainBidClient();
+      if (!client) return null;
       
-      const result = await verifyDecryption(
-        [encryptedValueHandle],
-        contractAddress,
-        (abiEncodedClearValues: string, decryptionProof: string) => 
-          contractWrite.verifyDecryption(businessId, abiEncodedClearValues, decryptionProof)
-      );
-      
-      setTransactionStatus({ visible: true, status: "pending", message: "Verifying bid..." });
-      
-      const clearValue = result.decryptionResult.clearValues[encryptedValueHandle];
+      const encryptedValueHandle = await client.getEncryptedBid(bid.domainName, bid.bidIndex);
+      validateHandle(encryptedValueHandle, { type: "euint32" });
+      const access = await checkAccess(encryptedValueHandle, contractAddress, address);
       
-      await loadData();
+      let clearValue: number;
+      if (access.publicDecrypt) {
+        const clearValues = await decrypt([encryptedValueHandle]);
+        clearValue = Number(clearValues[encryptedValueHandle]);
+      } else if (access.userDecrypt) {
+        const signer = await new ethers.BrowserProvider(window.ethereum!).getSigner();
+        clearValue = await decryptForUser(encryptedValueHandle, contractAddress, signer);
+      } else {
+        throw new FhevmError("ACL_DENIED", access.reason ?? "Bid is sealed until the auction closes");
+      }
       
       setTransactionStatus({ visible: true, status: "success", message: "Bid decrypted!" });
       setTimeout(() => {
         setTransactionStatus({ visible: false, status: "pending", message: "" });
       }, 2000);
       
-      return Number(clearValue);
-      
-    } catch (e: any) { 
-      if (e.message?.includes("already verified")) {
-        setTransactionStatus({ 
-          visible: true, 
-          status: "success", 
-          message: "Bid already verified" 
-        });
-        setTimeout(() => {
-          setTransactionStatus({ visible: false, status: "pending", message: "" });
-        }, 2000);
-        
-        await loadData();
-        return null;
-      }
-      
+      return clearValue;
+    } catch (e) { 
       setTransactionStatus({ 
         visible: true, 
         status: "error", 
-        message: "Decryption failed" 
+        message: describeError(e, "Decryption failed") 
       });
       setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
       return null; 
@@ -270,13 +360,123 @@ const App: React.FC = () => {
     }
   };
 
+  const runAuctionAction = async (domainName: string, action: AuctionAction) => {
+    if (action === 'bid') {
+      setBidDomain(domainName);
+      return;
+    }
+    
+    setPendingDomain(domainName);
+    setTransactionStatus({ visible: true, status: "pending", message: `${ACTION_LABELS[action]}...` });
+    try {
+      const client = await getDomainBidClient(true);
+      if (!client) throw new Error("Failed to get contract");
+      
+      if (action === 'reveal') {
+        const handles = await client.getWinnerHandles(domainName);
+        await verifyDecryption(
+          handles,
+          (abiEncodedClearValues: string, decryptionProof: string) => 
+            client.verifyWinner(domainName, abiEncodedClearValues, decryptionProof)
+        );
+      } else {
+        const tx = action === 'close' ? await client.closeAuction(domainName)
+          : action === 'revealBids' ? await client.revealBids(domainName)
+          : action === 'settle' ? await client.settleAuction(domainName)
+          : await client.cancelAuction(domainName);
+        await tx.wait();
+      }
+      
+      await loadData();
+      
+      setTransactionStatus({ visible: true, status: "success", message: `${ACTION_LABELS[action]} done!` });
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 2000);
+    } catch (e) {
+      const errorMessage = describeError(e, `${ACTION_LABELS[action]} failed`);
+      setTransactionStatus({ visible: true, status: "error", message: errorMessage });
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
+    } finally {
+      setPendingDomain(null);
+    }
+  };
+
+  const claimRefund = async (domainName: string, round?: number) => {
+    setPendingDomain(domainName);
+    setTransactionStatus({ visible: true, status: "pending", message: "Claiming refund..." });
+    try {
+      const client = await getDomainBidClient(true);
+      if (!client) throw new Error("Failed to get contract");
+      
+      const tx = await client.claimRefund(domainName, round);
+      await tx.wait();
+      await loadData();
+      
+      setTransactionStatus({ visible: true, status: "success", message: "Deposit added to claimable funds!" });
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 2000);
+    } catch (e) {
+      const errorMessage = describeError(e, "Refund failed");
+      setTransactionStatus({ visible: true, status: "error", message: errorMessage });
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
+    } finally {
+      setPendingDomain(null);
+    }
+  };
+
+  const claimFunds = async () => {
+    setClaimingFunds(true);
+    setTransactionStatus({ visible: true, status: "pending", message: "Claiming funds..." });
+    try {
+      const client = await getDomainBidClient(true);
+      if (!client) throw new Error("Failed to get contract");
+      
+      const tx = await client.withdrawFunds();
+      await tx.wait();
+      await loadData();
+      
+      setTransactionStatus({ visible: true, status: "success", message: "Funds claimed!" });
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 2000);
+    } catch (e) {
+      const errorMessage = describeError(e, "Claim failed");
+      setTransactionStatus({ visible: true, status: "error", message: errorMessage });
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
+    } finally {
+      setClaimingFunds(false);
+    }
+  };
+
+  const transferDomain = async (domainName: string, recipient: string) => {
+    if (!address) return;
+    if (!ethers.isAddress(recipient)) {
+      setTransactionStatus({ visible: true, status: "error", message: "Invalid recipient address" });
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
+      return;
+    }
+    
+    setTransferringDomain(domainName);
+    setTransactionStatus({ visible: true, status: "pending", message: `Transferring ${domainName}...` });
+    try {
+      const client = await getDomainBidClient(true);
+      if (!client) throw new Error("Failed to get contract");
+      
+      const tx = await client.transferDomain(address, recipient, domainName);
+      await tx.wait();
+      await loadData();
+      
+      setTransactionStatus({ visible: true, status: "success", message: "Domain transferred!" });
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 2000);
+    } catch (e) {
+      const errorMessage = describeError(e, "Transfer failed");
+      setTransactionStatus({ visible: true, status: "error", message: errorMessage });
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
+    } finally {
+      setTransferringDomain(null);
+    }
+  };
+
   const callIsAvailable = async () => {
     try {
       const contract = await getContractReadOnly();
-      if (!contract) return;
-      
-      const available = await contract.isAvailable();
-      if (available) {
+      if (contract) {
         setTransactionStatus({ 
           visible: true, 
           status: "success", 
@@ -294,9 +494,8 @@ const App: React.FC = () => {
     }
   };
 
-  const filteredBids = domainBids.filter(bid => 
-    bid.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
-    bid.description.toLowerCase().includes(searchTerm.toLowerCase())
+  const filteredAuctions = auctions.filter(auction => 
+    auction.domainName.toLowerCase().includes(searchTerm.toLowerCase())
   );
 
   if (!isConnected) {
@@ -338,6 +537,18 @@ const App: React.FC = () => {
     );
   }
 
+  // The init effect only fires from 'idle', so a failed initialization needs an explicit retry
+  if (status === 'error' && !fhevmInitializing) {
+    return (
+      <div className="loading-screen">
+        <div className="error-icon">✗</div>
+        <p>FHE Encryption failed to initialize</p>
+        <p>{fhevmError}</p>
+        <button onClick={() => initialize()} className="create-btn">Retry</button>
+      </div>
+    );
+  }
+
   if (!isInitialized || fhevmInitializing) {
     return (
       <div className="loading-screen">
@@ -364,10 +575,10 @@ const App: React.FC = () => {
         
         <div className="header-actions">
           <button 
-            onClick={() => setShowCreateModal(true)} 
+            onClick={() => setShowCreateAuctionModal(true)} 
             className="create-btn"
           >
-            + New Bid
+            + New Auction
           </button>
           <div className="wallet-connect-wrapper">
             <ConnectButton accountStatus="address" chainStatus="icon" showBalance={false}/>
@@ -379,19 +590,31 @@ const App: React.FC = () => {
         <div className="dashboard-section">
           <div className="stats-panel">
             <div className="stat-item">
-              <div className="stat-value">{stats.totalBids}</div>
-              <div className="stat-label">Total Bids</div>
+              <div className="stat-value">{stats.totalAuctions}</div>
+              <div className="stat-label">Auctions</div>
             </div>
             <div className="stat-item">
-              <div className="stat-value">{stats.verifiedBids}</div>
-              <div className="stat-label">Verified</div>
+              <div className="stat-value">{stats.totalBids}</div>
+              <div className="stat-label">Total Bids</div>
             </div>
             <div className="stat-item">
-              <div className="stat-value">{stats.avgBid.toFixed(1)}</div>
-              <div className="stat-label">Avg Bid</div>
+              <div className="stat-value">{stats.settledAuctions}</div>
+              <div className="stat-label">Settled</div>
             </div>
           </div>
           
+          <ClaimFundsPanel 
+            balance={claimableBalance} 
+            claiming={claimingFunds} 
+            onClaim={claimFunds}
+          />
+          
+          <MyDomainsPanel 
+            domains={ownedDomains} 
+            transferring={transferringDomain} 
+            onTransfer={transferDomain}
+          />
+          
           <div className="fhe-flow">
             <div className="flow-step">
               <div className="step-icon">1</div>
@@ -429,7 +652,7 @@ const App: React.FC = () => {
         
         <div className="bids-section">
           <div className="section-header">
-            <h2>Active Domain Bids</h2>
+            <h2>Domain Auctions</h2>
             <div className="header-actions">
               <div className="search-container">
                 <input 
@@ -470,55 +693,117 @@ const App: React.FC = () => {
               </div>
               <div className="faq-item">
                 <strong>When is my bid revealed?</strong>
-                <p>Bids are decrypted and verified after the auction ends.</p>
+                <p>Bids stay sealed while the auction is open. Once it closes, bids can be decrypted and the winner pays the second-highest price, or the seller's reserve if that is higher.</p>
               </div>
               <div className="faq-item">
                 <strong>Can I change my bid?</strong>
                 <p>No, bids are final once submitted to the blockchain.</p>
               </div>
+              <div className="faq-item">
+                <strong>How do I get my deposit back?</strong>
+                <p>At settlement the winner pays the clearing price from their deposit and the rest is credited back. Every other bidder clicks "Claim Refund" on their bid once the auction is settled or cancelled. Refunds and seller proceeds appear under "Claim Funds" and are withdrawn in one transaction.</p>
+              </div>
+              <div className="faq-item">
+                <strong>What do I get when I win?</strong>
+                <p>The domain is minted to your wallet as an ERC-721 token with its name and registration date. You can transfer it like any other NFT.</p>
+              </div>
+              <div className="faq-item">
+                <strong>What if the reserve is not met?</strong>
+                <p>The reserve stays encrypted. Only a pass/fail result is revealed; if it fails, the auction is cancelled and every bidder can claim their deposit back.</p>
+              </div>
             </div>
           )}
           
           <div className="bids-list">
-            {filteredBids.length === 0 ? (
+            {filteredAuctions.length === 0 ? (
               <div className="no-bids">
-                <p>No domain bids found</p>
+                <p>No domain auctions found</p>
                 <button 
                   className="create-btn" 
-                  onClick={() => setShowCreateModal(true)}
+                  onClick={() => setShowCreateAuctionModal(true)}
                 >
-                  Place First Bid
+                  Start First Auction
                 </button>
               </div>
-            ) : filteredBids.map((bid, index) => (
-              <div 
-                className={`bid-item ${selectedBid?.id === bid.id ? "selected" : ""} ${bid.isVerified ? "verified" : ""}`} 
-                key={index}
-                onClick={() => setSelectedBid(bid)}
-              >
-                <div className="bid-title">{bid.name}</div>
-                <div className="bid-meta">
-                  <span>Bid: 🔒 Encrypted</span>
-                  <span>Created: {new Date(bid.timestamp * 1000).toLocaleDateString()}</span>
+            ) : filteredAuctions.map(auction => {
+              const bids = domainBids.filter(bid => bid.domainName === auction.domainName);
+              const hasBid = bids.some(isOwnBid);
+              
+              return (
+                <div className="domain-group" key={auction.domainName}>
+                  <div className="domain-group-header">
+                    <h3>{auction.domainName}</h3>
+                    <span>{STATE_LABELS[auction.state]} · {bids.length} sealed {bids.length === 1 ? "bid" : "bids"}</span>
+                  </div>
+                  <AuctionPanel 
+                    auction={auction} 
+                    actions={address ? getAvailableActions(auction, address, hasBid) : []}
+                    isPending={pendingDomain === auction.domainName || fheIsDecrypting} 
+                    onAction={(action) => runAuctionAction(auction.domainName, action)}
+                  />
+                  {pastRefunds[auction.domainName]?.map(round => (
+                    <div className="auction-result" key={round}>
+                      <span>Your deposit from cancelled round {round + 1} is waiting</span>
+                      <button 
+                        className="decrypt-btn" 
+                        onClick={() => claimRefund(auction.domainName, round)}
+                        disabled={pendingDomain === auction.domainName}
+                      >
+                        Claim Refund
+                      </button>
+                    </div>
+                  ))}
+                  {bids.map(bid => (
+                    <div 
+                      className={`bid-item ${selectedBid?.id === bid.id ? "selected" : ""}`} 
+                      key={bid.id}
+                      onClick={() => setSelectedBid(bid)}
+                    >
+                      <div className="bid-title">Bid #{bid.bidIndex + 1}</div>
+                      <div className="bid-meta">
+                        <span>Bid: 🔒 Encrypted</span>
+                        <span>Created: {new Date(bid.bidTime * 1000).toLocaleDateString()}</span>
+                      </div>
+                      <div className="bid-status">
+                        Status: {bid.isRefunded ? "↩️ Refunded" : "🔒 Sealed"}
+                        {address && canClaimRefund(auction, bid, address) && (
+                          <button 
+                            className="decrypt-btn" 
+                            onClick={(e) => { e.stopPropagation(); claimRefund(bid.domainName); }}
+                            disabled={pendingDomain === bid.domainName}
+                          >
+                            Claim Refund
+                          </button>
+                        )}
+                      </div>
+                      <div className="bid-creator">Bidder: {bid.bidder.substring(0, 6)}...{bid.bidder.substring(38)}</div>
+                    </div>
+                  ))}
                 </div>
-                <div className="bid-status">
-                  Status: {bid.isVerified ? "✅ Verified" : "🔓 Pending"}
-                </div>
-                <div className="bid-creator">Creator: {bid.creator.substring(0, 6)}...{bid.creator.substring(38)}</div>
-              </div>
-            ))}
+              );
+            })}
           </div>
         </div>
       </div>
       
-      {showCreateModal && (
+      {showCreateAuctionModal && (
+        <ModalCreateAuction 
+          onSubmit={createAuction} 
+          onClose={() => setShowCreateAuctionModal(false)} 
+          creating={creatingAuction} 
+          auctionData={newAuctionData} 
+          setAuctionData={setNewAuctionData}
+        />
+      )}
+      
+      {bidDomain && (
         <ModalCreateBid 
+          domainName={bidDomain}
           onSubmit={createBid} 
-          onClose={() => setShowCreateModal(false)} 
+          onClose={() => setBidDomain(null)} 
           creating={creatingBid} 
           bidData={newBidData} 
           setBidData={setNewBidData}
-          isEncrypting={isEncrypting}
         />
       )}
       
@@ -526,8 +811,10 @@ const App: React.FC = () => {
         <BidDetailModal 
           bid={selectedBid} 
           onClose={() => setSelectedBid(null)} 
-          isDecrypting={isDecrypting || fheIsDecrypting} 
-          decryptData={() => decryptBid(selectedBid.id)}
+          isDecrypting={isDecrypting} 
+          checkAccess={() => checkBidAccess(selectedBid)}
+          decryptData={() => decryptBid(selectedBid)}
+          loadHandle={() => getBidHandle(selectedBid)}
         />
       )}
       
@@ -547,36 +834,51 @@ const App: React.FC = () => {
   );
 };
 
-const ModalCreateBid: React.FC<{
+const ModalCreateAuction: React.FC<{
   onSubmit: () => void; 
   onClose: () => void; 
   creating: boolean;
-  bidData: any;
-  setBidData: (data: any) => void;
-  isEncrypting: boolean;
-}> = ({ onSubmit, onClose, creating, bidData, setBidData, isEncrypting }) => {
-  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+  auctionData: any;
+  setAuctionData: (data: any) => void;
+}> = ({ onSubmit, onClose, creating, auctionData, setAuctionData }) => {
+  const { isEncrypting } = useFhevmActivity();
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const { name, value } = e.target;
-    if (name === 'bid') {
-      const intValue = value.replace(/[^\d]/g, '');
-      setBidData({ ...bidData, [name]: intValue });
+    if (name === 'domain' || name === 'reserve') {
+      setAuctionData({ ...auctionData, [name]: value });
     } else {
-      setBidData({ ...bidData, [name]: value });
+      const intValue = value.replace(/[^\d]/g, '');
+      setAuctionData({ ...auctionData, [name]: intValue });
     }
   };
+  // Number inputs accept values like "1e-3" or more than 18 decimals, which parseEther throws on
+  const isReserveInvalid = (() => {
+    try {
+      toPriceUnits(auctionData.reserve);
+      return false;
+    } catch {
+      return true;
+    }
+  })();
+  const biddingSeconds = parseInt(auctionData.biddingDays) * DAY;
+  const revealSeconds = parseInt(auctionData.revealDays) * DAY;
+  const isPeriodInvalid = !!auctionData.biddingDays && !!auctionData.revealDays && (
+    !(biddingSeconds > 0 && biddingSeconds <= MAX_BIDDING_DURATION) ||
+    !(revealSeconds >= MIN_REVEAL_DURATION && revealSeconds <= MAX_REVEAL_DURATION)
+  );
 
   return (
     <div className="modal-overlay">
       <div className="create-bid-modal">
         <div className="modal-header">
-          <h2>New Domain Bid</h2>
+          <h2>New Domain Auction</h2>
           <button onClick={onClose} className="close-modal">&times;</button>
         </div>
         
         <div className="modal-body">
           <div className="fhe-notice">
             <strong>FHE 🔒 Encryption</strong>
-            <p>Your bid will be encrypted before submission</p>
+            <p>Your reserve price will be encrypted. Bidders only learn whether it was met.</p>
           </div>
           
           <div className="form-group">
@@ -584,12 +886,117 @@ const ModalCreateBid: React.FC<{
             <input 
               type="text" 
               name="domain" 
-              value={bidData.domain} 
+              value={auctionData.domain} 
               onChange={handleChange} 
               placeholder="Enter domain name..." 
             />
           </div>
           
+          <div className="form-group">
+            <label>Reserve Price (ETH)</label>
+            <input 
+              type="number" 
+              name="reserve" 
+              value={auctionData.reserve} 
+              onChange={handleChange} 
+              placeholder="0" 
+              step="0.001"
+              min="0"
+            />
+            <div className="data-type-label">FHE Encrypted</div>
+          </div>
+          
+          <div className="form-group">
+            <label>Bidding Period (days) *</label>
+            <input 
+              type="number" 
+              name="biddingDays" 
+              value={auctionData.biddingDays} 
+              onChange={handleChange} 
+              min="1"
+              max={MAX_BIDDING_DURATION / DAY}
+            />
+          </div>
+          
+          <div className="form-group">
+            <label>Reveal Period (days) *</label>
+            <input 
+              type="number" 
+              name="revealDays" 
+              value={auctionData.revealDays} 
+              onChange={handleChange} 
+              min={MIN_REVEAL_DURATION / DAY}
+              max={MAX_REVEAL_DURATION / DAY}
+            />
+          </div>
+          
+          {isReserveInvalid && (
+            <div className="deposit-warning">
+              ⚠️ Enter the reserve as a plain ETH amount with at most 18 decimals.
+            </div>
+          )}
+          {isPeriodInvalid && (
+            <div className="deposit-warning">
+              ⚠️ Bidding can run for 1 to {MAX_BIDDING_DURATION / DAY} days and the reveal period for {MIN_REVEAL_DURATION / DAY} to {MAX_REVEAL_DURATION / DAY} days.
+            </div>
+          )}
+        </div>
+        
+        <div className="modal-footer">
+          <button onClick={onClose} className="cancel-btn">Cancel</button>
+          <button 
+            onClick={onSubmit} 
+            disabled={creating || isEncrypting || !auctionData.domain || !auctionData.biddingDays || !auctionData.revealDays || isReserveInvalid || isPeriodInvalid} 
+            className="submit-btn"
+          >
+            {isEncrypting ? "Encrypting..." : creating ? "Creating..." : "Create Auction"}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const ModalCreateBid: React.FC<{
+  domainName: string;
+  onSubmit: () => void; 
+  onClose: () => void; 
+  creating: boolean;
+  bidData: any;
+  setBidData: (data: any) => void;
+}> = ({ domainName, onSubmit, onClose, creating, bidData, setBidData }) => {
+  const { isEncrypting } = useFhevmActivity();
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+    setBidData({ ...bidData, [name]: value });
+  };
+
+  // Number inputs accept values like "1e-3" or more than 18 decimals, which parseEther throws on
+  const parsedBid = (() => {
+    if (!bidData.bid || !bidData.deposit) return null;
+    try {
+      return { units: toPriceUnits(bidData.bid), deposit: ethers.parseEther(bidData.deposit) };
+    } catch {
+      return null;
+    }
+  })();
+  const isInvalid = !!bidData.bid && !!bidData.deposit && !parsedBid;
+  const isUnderfunded = !!parsedBid && !isDepositSufficient(parsedBid.units, parsedBid.deposit);
+
+  return (
+    <div className="modal-overlay">
+      <div className="create-bid-modal">
+        <div className="modal-header">
+          <h2>Bid on {domainName}</h2>
+          <button onClick={onClose} className="close-modal">&times;</button>
+        </div>
+        
+        <div className="modal-body">
+          <div className="fhe-notice">
+            <strong>FHE 🔒 Encryption</strong>
+            <p>Your bid will be encrypted before submission. It must not exceed your deposit.</p>
+          </div>
+          
           <div className="form-group">
             <label>Bid Amount (ETH) *</label>
             <input 
@@ -598,28 +1005,43 @@ const ModalCreateBid: React.FC<{
               value={bidData.bid} 
               onChange={handleChange} 
               placeholder="Enter bid amount..." 
-              step="0.01"
+              step="0.001"
               min="0"
             />
             <div className="data-type-label">FHE Encrypted</div>
           </div>
           
           <div className="form-group">
-            <label>Description</label>
-            <textarea 
-              name="description" 
-              value={bidData.description} 
+            <label>Deposit (ETH) *</label>
+            <input 
+              type="number" 
+              name="deposit" 
+              value={bidData.deposit} 
               onChange={handleChange} 
-              placeholder="Describe your bid..." 
+              placeholder="Enter deposit..." 
+              step="0.001"
+              min="0"
             />
+            <div className="data-type-label">Public</div>
           </div>
+          
+          {isInvalid && (
+            <div className="deposit-warning">
+              ⚠️ Enter plain ETH amounts with at most 18 decimals.
+            </div>
+          )}
+          {isUnderfunded && (
+            <div className="deposit-warning">
+              ⚠️ Your deposit is below your bid. The contract will silently count this bid as zero.
+            </div>
+          )}
         </div>
         
         <div className="modal-footer">
           <button onClick={onClose} className="cancel-btn">Cancel</button>
           <button 
             onClick={onSubmit} 
-            disabled={creating || isEncrypting || !bidData.domain || !bidData.bid} 
+            disabled={creating || isEncrypting || !parsedBid} 
             className="submit-btn"
           >
             {creating || isEncrypting ? "Encrypting..." : "Place Bid"}
@@ -630,13 +1052,141 @@ const ModalCreateBid: React.FC<{
   );
 };
 
+const AuctionPanel: React.FC<{
+  auction: AuctionInfo;
+  actions: AuctionAction[];
+  isPending: boolean;
+  onAction: (action: AuctionAction) => void;
+}> = ({ auction, actions, isPending, onAction }) => {
+  const hasWinner = auction.state === AuctionState.Revealed || auction.state === AuctionState.Settled;
+  
+  return (
+    <div className={`auction-result ${hasWinner ? "verified" : ""}`}>
+      {hasWinner ? (
+        <>
+          <span>Winner: {auction.winner.substring(0, 6)}...{auction.winner.substring(38)}</span>
+          <span>Winning Price: {formatPriceUnits(auction.winningPrice)} ETH</span>
+        </>
+      ) : auction.state === AuctionState.Open ? (
+        <span>Bidding closes {new Date(auction.biddingEnd * 1000).toLocaleString()}</span>
+      ) : auction.state === AuctionState.Closed ? (
+        <span>Reveal ends {new Date(auction.revealEnd * 1000).toLocaleString()}</span>
+      ) : auction.reserveChecked && !auction.reserveMet ? (
+        <span>Reserve not met - deposits can be claimed back</span>
+      ) : (
+        <span>Auction cancelled</span>
+      )}
+      {actions.map(action => (
+        <button key={action} className="decrypt-btn" onClick={() => onAction(action)} disabled={isPending}>
+          {ACTION_LABELS[action]}
+        </button>
+      ))}
+    </div>
+  );
+};
+
+const ClaimFundsPanel: React.FC<{
+  balance: bigint;
+  claiming: boolean;
+  onClaim: () => void;
+}> = ({ balance, claiming, onClaim }) => {
+  return (
+    <div className="claim-panel">
+      <div>
+        <div className="stat-value">{ethers.formatEther(balance)} ETH</div>
+        <div className="stat-label">Claimable refunds & proceeds</div>
+      </div>
+      <button className="decrypt-btn" onClick={onClaim} disabled={claiming || balance === 0n}>
+        {claiming ? "Claiming..." : "Claim Funds"}
+      </button>
+    </div>
+  );
+};
+
+const MyDomainsPanel: React.FC<{
+  domains: DomainToken[];
+  transferring: string | null;
+  onTransfer: (domainName: string, recipient: string) => void;
+}> = ({ domains, transferring, onTransfer }) => {
+  const [recipients, setRecipients] = useState<Record<string, string>>({});
+  
+  return (
+    <div className="domains-panel">
+      <h3>My Domains</h3>
+      {domains.length === 0 ? (
+        <p className="stat-label">Domains you win are minted to your wallet as ERC-721 tokens</p>
+      ) : domains.map(domain => (
+        <div className="owned-domain" key={domain.domainName}>
+          <div>
+            <strong>{domain.domainName}</strong>
+            <div className="stat-label">
+              Token #{domain.tokenId.toString().substring(0, 10)}... · Registered {new Date(domain.registrationDate * 1000).toLocaleDateString()}
+            </div>
+          </div>
+          <div className="transfer-form">
+            <input 
+              type="text" 
+              placeholder="Recipient 0x..." 
+              value={recipients[domain.domainName] || ""}
+              onChange={(e) => setRecipients({ ...recipients, [domain.domainName]: e.target.value })}
+            />
+            <button 
+              className="decrypt-btn" 
+              onClick={() => onTransfer(domain.domainName, recipients[domain.domainName] || "")}
+              disabled={transferring !== null || !recipients[domain.domainName]}
+            >
+              {transferring === domain.domainName ? "Transferring..." : "Transfer"}
+            </button>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
 const BidDetailModal: React.FC<{
   bid: DomainBid;
   onClose: () => void;
   isDecrypting: boolean;
+  checkAccess: () => Promise<DecryptAccess | null>;
   decryptData: () => Promise<number | null>;
-}> = ({ bid, onClose, isDecrypting, decryptData }) => {
+  loadHandle: () => Promise<string | null>;
+}> = ({ bid, onClose, isDecrypting: loadingBid, checkAccess, decryptData, loadHandle }) => {
+  const { isDecrypting: fheIsDecrypting } = useFhevmActivity();
+  const isDecrypting = loadingBid || fheIsDecrypting;
   const [decryptedAmount, setDecryptedAmount] = useState<number | null>(null);
+  const [access, setAccess] = useState<{ allowed: boolean; reason?: string } | null>(null);
+
+  // Ask the ACL before offering decryption, so the wallet is never prompted for a permit the relayer would reject
+  useEffect(() => {
+    let cancelled = false;
+    checkAccess().then(
+      (result) => {
+        if (cancelled || !result) return;
+        setAccess({ allowed: result.publicDecrypt || result.userDecrypt, reason: result.publicDecrypt ? undefined : result.reason });
+      },
+      (err) => {
+        if (!cancelled) setAccess({ allowed: false, reason: describeError(err, "Could not check decryption access") });
+      }
+    );
+    return () => { cancelled = true; };
+  }, [bid.domainName, bid.bidIndex]);
+  const [handleInfo, setHandleInfo] = useState<{ raw: string; parsed?: ParsedHandle; error?: string } | null>(null);
+
+  const inspectHandle = async (e: React.SyntheticEvent<HTMLDetailsElement>) => {
+    if (!e.currentTarget.open || handleInfo) return;
+    try {
+      const raw = await loadHandle();
+      if (!raw) return;
+      try {
+        setHandleInfo({ raw, parsed: parseHandle(raw) });
+      } catch (err) {
+        setHandleInfo({ raw, error: describeError(err, "Invalid handle") });
+      }
+    } catch (err) {
+      setHandleInfo({ raw: "", error: describeError(err, "Could not read the handle") });
+    }
+  };
 
   const handleDecrypt = async () => {
     if (decryptedAmount !== null) return;
@@ -659,15 +1209,19 @@ const BidDetailModal: React.FC<{
           <div className="bid-info">
             <div className="info-item">
               <span>Domain:</span>
-              <strong>{bid.name}</strong>
+              <strong>{bid.domainName}</strong>
             </div>
             <div className="info-item">
-              <span>Creator:</span>
-              <strong>{bid.creator.substring(0, 6)}...{bid.creator.substring(38)}</strong>
+              <span>Bidder:</span>
+              <strong>{bid.bidder.substring(0, 6)}...{bid.bidder.substring(38)}</strong>
             </div>
             <div className="info-item">
               <span>Date:</span>
-              <strong>{new Date(bid.timestamp * 1000).toLocaleDateString()}</strong>
+              <strong>{new Date(bid.bidTime * 1000).toLocaleDateString()}</strong>
+            </div>
+            <div className="info-item">
+              <span>Deposit:</span>
+              <strong>{ethers.formatEther(bid.deposit)} ETH</strong>
             </div>
           </div>
           
@@ -677,46 +1231,53 @@ const BidDetailModal: React.FC<{
             <div className="data-row">
               <div className="data-label">Bid Amount:</div>
               <div className="data-value">
-                {bid.isVerified ? 
-                  `${bid.decryptedValue} ETH (Verified)` : 
-                  decryptedAmount !== null ? 
-                  `${decryptedAmount} ETH (Decrypted)` : 
+                {decryptedAmount !== null ? 
+                  `${formatPriceUnits(decryptedAmount)} ETH (Decrypted)` : 
                   "🔒 Encrypted"
                 }
               </div>
-              {!bid.isVerified && (
-                <button 
-                  className={`decrypt-btn ${decryptedAmount !== null ? 'decrypted' : ''}`}
-                  onClick={handleDecrypt} 
-                  disabled={isDecrypting}
-                >
-                  {isDecrypting ? "Decrypting..." : "Decrypt Bid"}
-                </button>
-              )}
+              <button 
+                className={`decrypt-btn ${decryptedAmount !== null ? 'decrypted' : ''}`}
+                onClick={handleDecrypt} 
+                disabled={isDecrypting || !access?.allowed}
+                title={access?.reason}
+              >
+                {isDecrypting ? "Decrypting..." : access ? "Decrypt Bid" : "Checking access..."}
+              </button>
             </div>
+            {access && !access.allowed && access.reason && (
+              <div className="decrypt-access-note">{access.reason}</div>
+            )}
             
             <div className="fhe-info">
               <div className="fhe-icon">🔒</div>
               <div>
                 <strong>FHE Protected Bid</strong>
-                <p>Your bid remains encrypted until verification</p>
+                <p>Only the bidder can decrypt until the auction closes</p>
               </div>
             </div>
+
+            <details className="handle-debug" onToggle={inspectHandle}>
+              <summary>Handle details</summary>
+              {!handleInfo && <div className="handle-debug-row">Loading...</div>}
+              {handleInfo?.raw && <div className="handle-debug-row handle-debug-raw">{handleInfo.raw}</div>}
+              {handleInfo?.error && <div className="handle-debug-row handle-debug-error">{handleInfo.error}</div>}
+              {handleInfo?.parsed && (
+                <>
+                  <div className="handle-debug-row"><span>Type</span><strong>{handleInfo.parsed.type} (0x{handleInfo.parsed.fheType.toString(16).padStart(2, "0")})</strong></div>
+                  <div className="handle-debug-row"><span>Chain ID</span><strong>{handleInfo.parsed.chainId}</strong></div>
+                  <div className="handle-debug-row"><span>Origin</span><strong>{handleInfo.parsed.index === null ? "On-chain computation" : `Encrypted input #${handleInfo.parsed.index}`}</strong></div>
+                  <div className="handle-debug-row"><span>Version</span><strong>{handleInfo.parsed.version}</strong></div>
+                  <div className="handle-debug-row"><span>Hash</span><strong>{handleInfo.parsed.hash.substring(0, 10)}...{handleInfo.parsed.hash.substring(36)}</strong></div>
+                </>
+              )}
+            </details>
           </div>
-          
-          <div className="description-section">
-            <h3>Description</h3>
-            <p>{bid.description || "No description provided"}</p>
-          </div>
+
         </div>
         
         <div className="modal-footer">
           <button onClick={onClose} className="close-btn">Close</button>
-          {bid.isVerified && (
-            <button className="verified-btn">
-              ✅ Verified Bid
-            </button>
-          )}
         </div>
       </div>
     </div>
@@ -724,5 +1285,3 @@ const BidDetailModal: React.FC<{
 };
 
 export default App;
-
-
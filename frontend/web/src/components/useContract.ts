@@ -1,7 +1,8 @@
 // contract.ts
 import { ethers } from "ethers";
-import abiJson from "../abi/UniversalFHEAdapter.json";
+import abiJson from "../abi/DomainBidAdapter.json";
 import configJson from "../config.json";
+import { DomainBidClient, HARDHAT_CHAIN_ID, HARDHAT_RPC_URL } from "../../fhevm-sdk/src";
 
 export const ABI = (abiJson as any).abi || abiJson;
 export const config = configJson;
@@ -49,10 +50,18 @@ const getTestnetProvider = async () => {
   throw new Error("All RPC providers failed");
 };
 
-export async function getContractReadOnly() {
+const isHardhatChain = async () => {
+  if (!window.ethereum) return false;
+  const chainId = await window.ethereum.request({ method: "eth_chainId" });
+  return Number(chainId) === HARDHAT_CHAIN_ID;
+};
+
+export async function getContractReadOnly(): Promise<DomainBidClient | null> {
   try {
-    const provider = await getTestnetProvider();
-    const contract = new ethers.Contract(config.contractAddress, ABI, provider);
+    const provider = (await isHardhatChain()) 
+      ? new ethers.JsonRpcProvider(HARDHAT_RPC_URL) 
+      : await getTestnetProvider();
+    const contract = DomainBidClient.connect(config.contractAddress, provider);
     
     const code = await retry(() => provider.getCode(config.contractAddress));
     if (code === "0x") {
@@ -66,7 +75,7 @@ export async function getContractReadOnly() {
   }
 }
 
-export async function getContractWithSigner() {
+export async function getContractWithSigner(): Promise<DomainBidClient> {
   if (!(window as any).ethereum) {
     throw new Error("No injected wallet");
   }
@@ -75,14 +84,14 @@ export async function getContractWithSigner() {
   // const network = await provider.getNetwork();
   // console.log("network ID:", network.chainId);
 
-  if (window.ethereum && window.ethereum.chainId !== '0xaa36a7') {
+  if (window.ethereum && window.ethereum.chainId !== '0xaa36a7' && !(await isHardhatChain())) {
     alert("Please switch to Sepolia test network");
   }
 
   try {
     const provider = new ethers.BrowserProvider((window as any).ethereum);
     const signer = await provider.getSigner();
-    const contract = new ethers.Contract(config.contractAddress, ABI, signer);
+    const contract = DomainBidClient.connect(config.contractAddress, signer);
     return contract;
   } catch (error) {
     console.error("Failed to create contract with signer:", error);
@@ -6,6 +6,9 @@ export default defineConfig({
   define: {
     'process.env': process.env
   },
+  worker: {
+    format: 'es'
+  },
   esbuild: {
     target: "es2022",
     supported: {
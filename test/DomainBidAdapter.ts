@@ -0,0 +1,312 @@
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { expect } from "chai";
+import { ethers, fhevm } from "hardhat";
+import { DomainBidAdapter, DomainBidAdapter__factory } from "../types";
+
+type Signers = {
+  treasury: HardhatEthersSigner;
+  seller: HardhatEthersSigner;
+  alice: HardhatEthersSigner;
+  bob: HardhatEthersSigner;
+  carol: HardhatEthersSigner;
+};
+
+const DOMAIN = "vickrey.fhe";
+const DEPOSIT = ethers.parseEther("0.1");
+const PRICE_UNIT = ethers.parseEther("0.001");
+const DAY = 24 * 60 * 60;
+
+enum AuctionState {
+  Open,
+  Closed,
+  Revealed,
+  Settled,
+  Cancelled,
+}
+
+async function deployFixture() {
+  const factory = (await ethers.getContractFactory("DomainBidAdapter")) as DomainBidAdapter__factory;
+  const domainBid = (await factory.deploy()) as DomainBidAdapter;
+  const domainBidAddress = await domainBid.getAddress();
+
+  return { domainBid, domainBidAddress };
+}
+
+describe("DomainBidAdapter", function () {
+  let signers: Signers;
+  let domainBid: DomainBidAdapter;
+  let domainBidAddress: string;
+  let biddingEnd: number;
+
+  async function encrypt32(signer: HardhatEthersSigner, value: number) {
+    return fhevm.createEncryptedInput(domainBidAddress, signer.address).add32(value).encrypt();
+  }
+
+  async function createAuction(reserveUnits: number) {
+    const now = await time.latest();
+    biddingEnd = now + 3600;
+    const reserve = await encrypt32(signers.seller, reserveUnits);
+    await (
+      await domainBid
+        .connect(signers.seller)
+        .createAuction(DOMAIN, reserve.handles[0], reserve.inputProof, biddingEnd, biddingEnd + DAY)
+    ).wait();
+  }
+
+  async function placeBid(bidder: HardhatEthersSigner, units: number, deposit = DEPOSIT) {
+    const bid = await encrypt32(bidder, units);
+    await (
+      await domainBid.connect(bidder).placeBid(DOMAIN, bid.handles[0], bid.inputProof, { value: deposit })
+    ).wait();
+  }
+
+  async function closeAuction() {
+    await time.increaseTo(biddingEnd);
+    await (await domainBid.closeAuction(DOMAIN)).wait();
+  }
+
+  async function verifyWinner() {
+    const [winner, price, reserveMet] = await domainBid.getEncryptedWinner(DOMAIN);
+    const { abiEncodedClearValues, decryptionProof } = await fhevm.publicDecrypt([winner, price, reserveMet]);
+    return domainBid.verifyWinner(DOMAIN, abiEncodedClearValues, decryptionProof);
+  }
+
+  before(async function () {
+    const ethSigners: HardhatEthersSigner[] = await ethers.getSigners();
+    signers = {
+      treasury: ethSigners[0],
+      seller: ethSigners[1],
+      alice: ethSigners[2],
+      bob: ethSigners[3],
+      carol: ethSigners[4],
+    };
+  });
+
+  beforeEach(async function () {
+    // Check whether the tests are running against an FHEVM mock environment
+    if (!fhevm.isMock) {
+      console.warn(`This hardhat test suite cannot run on Sepolia Testnet`);
+      this.skip();
+    }
+
+    ({ domainBid, domainBidAddress } = await deployFixture());
+  });
+
+  it("awards the highest bidder at the second-highest price", async function () {
+    await createAuction(20);
+    await placeBid(signers.alice, 50);
+    await placeBid(signers.bob, 80);
+    await placeBid(signers.carol, 30);
+    await closeAuction();
+
+    await expect(verifyWinner()).to.emit(domainBid, "WinnerVerified").withArgs(DOMAIN, signers.bob.address, 50);
+
+    const auction = await domainBid.getAuction(DOMAIN);
+    expect(auction.state).to.eq(AuctionState.Revealed);
+    expect(auction.winner).to.eq(signers.bob.address);
+    expect(auction.winningPrice).to.eq(50);
+    expect(auction.reserveMet).to.eq(true);
+  });
+
+  it("raises the price to the reserve when the second bid is below it", async function () {
+    await createAuction(40);
+    await placeBid(signers.alice, 80);
+    await placeBid(signers.bob, 10);
+    await closeAuction();
+
+    await expect(verifyWinner()).to.emit(domainBid, "WinnerVerified").withArgs(DOMAIN, signers.alice.address, 40);
+  });
+
+  it("cancels the auction when no bid meets the reserve", async function () {
+    await createAuction(90);
+    await placeBid(signers.alice, 60);
+    await placeBid(signers.bob, 70);
+    await closeAuction();
+
+    await expect(verifyWinner())
+      .to.emit(domainBid, "ReserveNotMet")
+      .withArgs(DOMAIN)
+      .and.to.emit(domainBid, "AuctionCancelled")
+      .withArgs(DOMAIN);
+
+    const auction = await domainBid.getAuction(DOMAIN);
+    expect(auction.state).to.eq(AuctionState.Cancelled);
+    expect(auction.reserveMet).to.eq(false);
+    expect(auction.winner).to.eq(ethers.ZeroAddress);
+  });
+
+  it("keeps the reserve readable by the seller only", async function () {
+    await createAuction(40);
+
+    const reserve = await domainBid.getEncryptedReserve(DOMAIN);
+    expect(await fhevm.userDecryptEuint(FhevmType.euint32, reserve, domainBidAddress, signers.seller)).to.eq(40);
+    await expect(fhevm.userDecryptEuint(FhevmType.euint32, reserve, domainBidAddress, signers.alice)).to.be.rejected;
+  });
+
+  it("zeroes a bid the deposit cannot cover", async function () {
+    await createAuction(20);
+    // 500 units is 0.5 ETH, five times the deposit
+    await placeBid(signers.alice, 500);
+    await placeBid(signers.bob, 60);
+
+    const aliceBid = await domainBid.getEncryptedBid(DOMAIN, 0);
+    const clearAliceBid = await fhevm.userDecryptEuint(FhevmType.euint32, aliceBid, domainBidAddress, signers.alice);
+    expect(clearAliceBid).to.eq(0);
+
+    await closeAuction();
+    await expect(verifyWinner()).to.emit(domainBid, "WinnerVerified").withArgs(DOMAIN, signers.bob.address, 20);
+  });
+
+  it("reveals bids in batches once bidding is over", async function () {
+    await createAuction(0);
+    await placeBid(signers.alice, 50);
+    await placeBid(signers.bob, 80);
+    await placeBid(signers.carol, 30);
+
+    await expect(domainBid.revealBids(DOMAIN, 2)).to.be.revertedWith("Auction still open");
+    await closeAuction();
+
+    await expect(domainBid.revealBids(DOMAIN, 2)).to.emit(domainBid, "BidsRevealed").withArgs(DOMAIN, 2);
+    await expect(domainBid.revealBids(DOMAIN, 2)).to.emit(domainBid, "BidsRevealed").withArgs(DOMAIN, 3);
+    await expect(domainBid.revealBids(DOMAIN, 2)).to.be.revertedWith("All bids revealed");
+    expect((await domainBid.getAuction(DOMAIN)).revealedBidCount).to.eq(3);
+
+    const carolBid = await domainBid.getEncryptedBid(DOMAIN, 2);
+    expect(await fhevm.publicDecryptEuint(FhevmType.euint32, carolBid)).to.eq(30);
+  });
+
+  describe("settlement", function () {
+    beforeEach(async function () {
+      await createAuction(20);
+      await placeBid(signers.alice, 50);
+      await placeBid(signers.bob, 80);
+      await closeAuction();
+      await (await verifyWinner()).wait();
+    });
+
+    it("credits the seller, the protocol fee and the winner's change for withdrawal", async function () {
+      const price = 50n * PRICE_UNIT;
+      const fee = (price * 250n) / 10_000n;
+
+      await expect(domainBid.settleAuction(DOMAIN))
+        .to.emit(domainBid, "AuctionSettled")
+        .withArgs(DOMAIN, signers.bob.address, 50);
+
+      expect(await domainBid.pendingWithdrawals(signers.seller.address)).to.eq(price - fee);
+      expect(await domainBid.pendingWithdrawals(signers.treasury.address)).to.eq(fee);
+      expect(await domainBid.pendingWithdrawals(signers.bob.address)).to.eq(DEPOSIT - price);
+
+      await expect(domainBid.connect(signers.seller).withdrawFunds()).to.changeEtherBalances(
+        [signers.seller, domainBid],
+        [price - fee, -(price - fee)],
+      );
+      expect(await domainBid.pendingWithdrawals(signers.seller.address)).to.eq(0);
+      await expect(domainBid.connect(signers.seller).withdrawFunds()).to.be.revertedWith("Nothing to withdraw");
+
+      await expect(domainBid.connect(signers.treasury).withdrawFunds()).to.changeEtherBalance(signers.treasury, fee);
+      await expect(domainBid.connect(signers.bob).withdrawFunds()).to.changeEtherBalance(signers.bob, DEPOSIT - price);
+    });
+
+    it("lets losing bidders claim their deposit into their withdrawable balance once", async function () {
+      await expect(domainBid.connect(signers.alice).claimRefund(DOMAIN, 0)).to.be.revertedWith("Refund not available");
+      await (await domainBid.settleAuction(DOMAIN)).wait();
+      expect(await domainBid.pendingWithdrawals(signers.alice.address)).to.eq(0);
+
+      await expect(domainBid.connect(signers.alice).claimRefund(DOMAIN, 0))
+        .to.emit(domainBid, "FundsCredited")
+        .withArgs(DOMAIN, signers.alice.address, DEPOSIT);
+      expect(await domainBid.pendingWithdrawals(signers.alice.address)).to.eq(DEPOSIT);
+      await expect(domainBid.connect(signers.alice).claimRefund(DOMAIN, 0)).to.be.revertedWith("Already refunded");
+      await expect(domainBid.connect(signers.bob).claimRefund(DOMAIN, 0)).to.be.revertedWith("Refund not available");
+
+      await expect(domainBid.connect(signers.alice).withdrawFunds()).to.changeEtherBalance(signers.alice, DEPOSIT);
+    });
+
+    it("mints the domain to the winner as an ERC-721 token", async function () {
+      const tokenId = await domainBid.domainTokenId(DOMAIN);
+
+      await expect(domainBid.settleAuction(DOMAIN))
+        .to.emit(domainBid, "Transfer")
+        .withArgs(ethers.ZeroAddress, signers.bob.address, tokenId)
+        .and.to.emit(domainBid, "DomainRegistered")
+        .withArgs(DOMAIN, tokenId, signers.bob.address);
+
+      expect(await domainBid.ownerOf(tokenId)).to.eq(signers.bob.address);
+      expect(await domainBid.isDomainRegistered(DOMAIN)).to.eq(true);
+
+      const token = await domainBid.getDomainToken(DOMAIN);
+      expect(token.owner).to.eq(signers.bob.address);
+      expect(token.registrationDate).to.eq(await time.latest());
+
+      const tokenURI = await domainBid.tokenURI(tokenId);
+      const metadata = JSON.parse(Buffer.from(tokenURI.split(",")[1], "base64").toString("utf8"));
+      expect(metadata.name).to.eq(DOMAIN);
+
+      await expect(createAuction(20)).to.be.revertedWith("Domain already registered");
+    });
+  });
+
+  it("rejects bidding and reveal periods outside the duration limits", async function () {
+    const now = await time.latest();
+    const reserve = await encrypt32(signers.seller, 0);
+    const create = (end: number, revealEnd: number) =>
+      domainBid.connect(signers.seller).createAuction(DOMAIN, reserve.handles[0], reserve.inputProof, end, revealEnd);
+
+    await expect(create(now + 31 * DAY, now + 32 * DAY)).to.be.revertedWith("Bidding period too long");
+    await expect(create(now + DAY, now + DAY + 3600)).to.be.revertedWith("Reveal period too short");
+    await expect(create(now + DAY, now + 9 * DAY)).to.be.revertedWith("Reveal period too long");
+  });
+
+  it("moves through the lifecycle states in order", async function () {
+    await createAuction(0);
+    await placeBid(signers.alice, 50);
+
+    await expect(domainBid.closeAuction(DOMAIN)).to.be.revertedWith("Bidding still open");
+    await expect(domainBid.settleAuction(DOMAIN)).to.be.revertedWith("Invalid auction state");
+    await closeAuction();
+    expect((await domainBid.getAuction(DOMAIN)).state).to.eq(AuctionState.Closed);
+    await expect(placeBid(signers.bob, 60)).to.be.revertedWith("Invalid auction state");
+
+    await (await verifyWinner()).wait();
+    await expect(domainBid.settleAuction(DOMAIN))
+      .to.emit(domainBid, "AuctionSettled")
+      .withArgs(DOMAIN, signers.alice.address, 0);
+    expect((await domainBid.getAuction(DOMAIN)).state).to.eq(AuctionState.Settled);
+    expect(await domainBid.isDomainRegistered(DOMAIN)).to.eq(true);
+  });
+
+  it("cancels a closed auction nobody revealed in time", async function () {
+    await createAuction(0);
+    await placeBid(signers.alice, 50);
+    await closeAuction();
+
+    await expect(domainBid.cancelAuction(DOMAIN)).to.be.revertedWith("Reveal period not over");
+    await time.increaseTo(biddingEnd + DAY);
+    await expect(verifyWinner()).to.be.revertedWith("Reveal period over");
+    await expect(domainBid.cancelAuction(DOMAIN)).to.emit(domainBid, "AuctionCancelled").withArgs(DOMAIN);
+    expect((await domainBid.getAuction(DOMAIN)).state).to.eq(AuctionState.Cancelled);
+  });
+
+  it("auctions a cancelled domain again and keeps the old round refundable", async function () {
+    await createAuction(90);
+    await placeBid(signers.alice, 60);
+    await closeAuction();
+    await (await verifyWinner()).wait();
+
+    await createAuction(20);
+    expect(await domainBid.auctionRound(DOMAIN)).to.eq(1);
+    const auction = await domainBid.getAuction(DOMAIN);
+    expect(auction.state).to.eq(AuctionState.Open);
+    expect(auction.bidCount).to.eq(0);
+
+    // Alice can bid in the new round and still claim the cancelled round's deposit
+    await placeBid(signers.alice, 30);
+    await expect(domainBid.connect(signers.alice).claimRefund(DOMAIN, 0))
+      .to.emit(domainBid, "FundsCredited")
+      .withArgs(DOMAIN, signers.alice.address, DEPOSIT);
+    expect(await domainBid.pendingWithdrawals(signers.alice.address)).to.eq(DEPOSIT);
+    await expect(domainBid.connect(signers.alice).claimRefund(DOMAIN, 1)).to.be.revertedWith("Refund not available");
+  });
+});
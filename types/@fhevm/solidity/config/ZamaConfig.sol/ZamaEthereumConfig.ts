@@ -88,5 +88,3 @@ export interface ZamaEthereumConfig extends BaseContract {
 
   filters: {};
 }
-
-
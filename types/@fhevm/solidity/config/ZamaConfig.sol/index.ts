@@ -3,5 +3,3 @@
 /* eslint-disable */
 export type { ZamaConfig } from "./ZamaConfig";
 export type { ZamaEthereumConfig } from "./ZamaEthereumConfig";
-
-
@@ -110,5 +110,3 @@ export interface FHE extends BaseContract {
     >;
   };
 }
-
-
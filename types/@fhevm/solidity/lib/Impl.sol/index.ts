@@ -4,5 +4,3 @@
 export type { IACL } from "./IACL";
 export type { IFHEVMExecutor } from "./IFHEVMExecutor";
 export type { IInputVerifier } from "./IInputVerifier";
-
-
@@ -1,6 +1,5 @@
 /* Autogenerated file. Do not edit manually. */
 /* tslint:disable */
 /* eslint-disable */
-export type { UniversalFHEAdapter } from "./UniversalFHEAdapter";
-
-
+import type * as domainBidZSol from "./DomainBid_Z.sol";
+export type { domainBidZSol };
@@ -0,0 +1,1462 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import {
+  Contract,
+  ContractFactory,
+  ContractTransactionResponse,
+  Interface,
+} from "ethers";
+import type { Signer, ContractDeployTransaction, ContractRunner } from "ethers";
+import type { NonPayableOverrides } from "../../../common";
+import type {
+  DomainBidAdapter,
+  DomainBidAdapterInterface,
+} from "../../../contracts/DomainBid_Z.sol/DomainBidAdapter";
+
+const _abi = [
+  {
+    inputs: [],
+    stateMutability: "nonpayable",
+    type: "constructor",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "sender",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+    ],
+    name: "ERC721IncorrectOwner",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "operator",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+    ],
+    name: "ERC721InsufficientApproval",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "approver",
+        type: "address",
+      },
+    ],
+    name: "ERC721InvalidApprover",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "operator",
+        type: "address",
+      },
+    ],
+    name: "ERC721InvalidOperator",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+    ],
+    name: "ERC721InvalidOwner",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "receiver",
+        type: "address",
+      },
+    ],
+    name: "ERC721InvalidReceiver",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "sender",
+        type: "address",
+      },
+    ],
+    name: "ERC721InvalidSender",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+    ],
+    name: "ERC721NonexistentToken",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidKMSSignatures",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "ReentrancyGuardReentrantCall",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "ZamaProtocolUnsupported",
+    type: "error",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "approved",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+    ],
+    name: "Approval",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "operator",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "bool",
+        name: "approved",
+        type: "bool",
+      },
+    ],
+    name: "ApprovalForAll",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "string",
+        name: "domainName",
+        type: "string",
+      },
+    ],
+    name: "AuctionCancelled",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "string",
+        name: "domainName",
+        type: "string",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "bidCount",
+        type: "uint256",
+      },
+    ],
+    name: "AuctionClosed",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "string",
+        name: "domainName",
+        type: "string",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "seller",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "biddingEnd",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "revealEnd",
+        type: "uint256",
+      },
+    ],
+    name: "AuctionCreated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "string",
+        name: "domainName",
+        type: "string",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "winner",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "winningPrice",
+        type: "uint32",
+      },
+    ],
+    name: "AuctionSettled",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "string",
+        name: "domainName",
+        type: "string",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "bidder",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "bidIndex",
+        type: "uint256",
+      },
+    ],
+    name: "BidPlaced",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "string",
+        name: "domainName",
+        type: "string",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "revealedBidCount",
+        type: "uint256",
+      },
+    ],
+    name: "BidsRevealed",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "string",
+        name: "domainName",
+        type: "string",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+    ],
+    name: "DomainRegistered",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "string",
+        name: "domainName",
+        type: "string",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+    ],
+    name: "FundsCredited",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+    ],
+    name: "FundsWithdrawn",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "bytes32[]",
+        name: "handlesList",
+        type: "bytes32[]",
+      },
+      {
+        indexed: false,
+        internalType: "bytes",
+        name: "abiEncodedCleartexts",
+        type: "bytes",
+      },
+    ],
+    name: "PublicDecryptionVerified",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "string",
+        name: "domainName",
+        type: "string",
+      },
+    ],
+    name: "ReserveNotMet",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "from",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+    ],
+    name: "Transfer",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "string",
+        name: "domainName",
+        type: "string",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "winner",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "winningPrice",
+        type: "uint32",
+      },
+    ],
+    name: "WinnerVerified",
+    type: "event",
+  },
+  {
+    inputs: [],
+    name: "MAX_BIDDING_DURATION",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MAX_REVEAL_DURATION",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MIN_REVEAL_DURATION",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "PRICE_UNIT",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "PROTOCOL_FEE_BPS",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+    ],
+    name: "approve",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+    ],
+    name: "auctionRound",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+    ],
+    name: "balanceOf",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "domainName",
+        type: "string",
+      },
+    ],
+    name: "cancelAuction",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "domainName",
+        type: "string",
+      },
+      {
+        internalType: "uint256",
+        name: "round",
+        type: "uint256",
+      },
+    ],
+    name: "claimRefund",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "domainName",
+        type: "string",
+      },
+    ],
+    name: "closeAuction",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "confidentialProtocolId",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "domainName",
+        type: "string",
+      },
+      {
+        internalType: "externalEuint32",
+        name: "encryptedReservePrice",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+      {
+        internalType: "uint256",
+        name: "biddingEnd",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "revealEnd",
+        type: "uint256",
+      },
+    ],
+    name: "createAuction",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "domainNames",
+    outputs: [
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+    ],
+    name: "domainRegistered",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "domainName",
+        type: "string",
+      },
+    ],
+    name: "domainTokenId",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "pure",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "getAllDomainNames",
+    outputs: [
+      {
+        internalType: "string[]",
+        name: "",
+        type: "string[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+    ],
+    name: "getApproved",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "domainName",
+        type: "string",
+      },
+    ],
+    name: "getAuction",
+    outputs: [
+      {
+        internalType: "address",
+        name: "seller",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "biddingEnd",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "revealEnd",
+        type: "uint256",
+      },
+      {
+        internalType: "enum DomainBidAdapter.AuctionState",
+        name: "state",
+        type: "uint8",
+      },
+      {
+        internalType: "uint256",
+        name: "bidCount",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "winner",
+        type: "address",
+      },
+      {
+        internalType: "uint32",
+        name: "winningPrice",
+        type: "uint32",
+      },
+      {
+        internalType: "bool",
+        name: "reserveChecked",
+        type: "bool",
+      },
+      {
+        internalType: "bool",
+        name: "reserveMet",
+        type: "bool",
+      },
+      {
+        internalType: "uint256",
+        name: "revealedBidCount",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "domainName",
+        type: "string",
+      },
+    ],
+    name: "getBidCount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "domainName",
+        type: "string",
+      },
+      {
+        internalType: "uint256",
+        name: "bidIndex",
+        type: "uint256",
+      },
+    ],
+    name: "getBidDetails",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "deposit",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "bidder",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "bidTime",
+        type: "uint256",
+      },
+      {
+        internalType: "bool",
+        name: "isRefunded",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "domainName",
+        type: "string",
+      },
+      {
+        internalType: "address",
+        name: "bidder",
+        type: "address",
+      },
+    ],
+    name: "getBidIndex",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "domainName",
+        type: "string",
+      },
+    ],
+    name: "getDomainToken",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "registrationDate",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "domainName",
+        type: "string",
+      },
+      {
+        internalType: "uint256",
+        name: "bidIndex",
+        type: "uint256",
+      },
+    ],
+    name: "getEncryptedBid",
+    outputs: [
+      {
+        internalType: "euint32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "domainName",
+        type: "string",
+      },
+    ],
+    name: "getEncryptedReserve",
+    outputs: [
+      {
+        internalType: "euint32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "domainName",
+        type: "string",
+      },
+    ],
+    name: "getEncryptedWinner",
+    outputs: [
+      {
+        internalType: "eaddress",
+        name: "winner",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint32",
+        name: "price",
+        type: "bytes32",
+      },
+      {
+        internalType: "ebool",
+        name: "reserveMet",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "domainName",
+        type: "string",
+      },
+      {
+        internalType: "uint256",
+        name: "round",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "bidder",
+        type: "address",
+      },
+    ],
+    name: "getRoundBid",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "exists",
+        type: "bool",
+      },
+      {
+        internalType: "uint256",
+        name: "deposit",
+        type: "uint256",
+      },
+      {
+        internalType: "bool",
+        name: "isRefunded",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "operator",
+        type: "address",
+      },
+    ],
+    name: "isApprovedForAll",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "domainName",
+        type: "string",
+      },
+    ],
+    name: "isDomainRegistered",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "name",
+    outputs: [
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+    ],
+    name: "ownerOf",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "pendingWithdrawals",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "domainName",
+        type: "string",
+      },
+      {
+        internalType: "externalEuint32",
+        name: "encryptedBidAmount",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+    ],
+    name: "placeBid",
+    outputs: [],
+    stateMutability: "payable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "registeredAt",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "domainName",
+        type: "string",
+      },
+      {
+        internalType: "uint256",
+        name: "maxCount",
+        type: "uint256",
+      },
+    ],
+    name: "revealBids",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "from",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+    ],
+    name: "safeTransferFrom",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "from",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes",
+        name: "data",
+        type: "bytes",
+      },
+    ],
+    name: "safeTransferFrom",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "operator",
+        type: "address",
+      },
+      {
+        internalType: "bool",
+        name: "approved",
+        type: "bool",
+      },
+    ],
+    name: "setApprovalForAll",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "domainName",
+        type: "string",
+      },
+    ],
+    name: "settleAuction",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes4",
+        name: "interfaceId",
+        type: "bytes4",
+      },
+    ],
+    name: "supportsInterface",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "symbol",
+    outputs: [
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+    ],
+    name: "tokenURI",
+    outputs: [
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "from",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+    ],
+    name: "transferFrom",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "treasury",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "domainName",
+        type: "string",
+      },
+      {
+        internalType: "bytes",
+        name: "abiEncodedClearValues",
+        type: "bytes",
+      },
+      {
+        internalType: "bytes",
+        name: "decryptionProof",
+        type: "bytes",
+      },
+    ],
+    name: "verifyWinner",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "withdrawFunds",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+] as const;
+
+const _bytecode =
+  "0x604060a0815234620004d85762000015620004fc565b90601082526020916f2237b6b0b4b72134b2102237b6b0b4b760811b838201526200003f620004fc565b9260068452652227a6a0a4a760d11b818501526200005c6200051c565b50600191468303620003ea57620000726200051c565b506200007d620004dc565b5f81525f838201525f858201525b80517f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970080546001600160a01b03199081166001600160a01b0393841617909155848301517f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970180548316918416919091179055918601517f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649702805490931691161790557f9b779b17422d0df92223018b32b4d1fa46e071723d6817e2486d003becc55f0083905580516001600160401b03929083811162000308575f54928584811c94168015620003df575b83851014620002e9578190601f948581116200038c575b50839085831160011462000328575f926200031c575b50505f19600383901b1c191690851b175f555b8551928311620003085783548481811c91168015620002fd575b82821014620002e957828111620002a1575b50809183116001146200023c5750819293945f9262000230575b50505f19600383901b1c191690821b1790555b33608052516140ed9081620005398239608051818181610ea401526118800152f35b015190505f80620001fb565b90601f19831695845f52825f20925f905b88821062000289575050838596971062000270575b505050811b0190556200020e565b01515f1960f88460031b161c191690555f808062000262565b8087859682949686015181550195019301906200024d565b845f52815f208380860160051c820192848710620002df575b0160051c019085905b828110620002d3575050620001e1565b5f8155018590620002c3565b92508192620002ba565b634e487b7160e01b5f52602260045260245ffd5b90607f1690620001cf565b634e487b7160e01b5f52604160045260245ffd5b015190505f80620001a2565b90879350601f198316915f8052855f20925f5b878282106200037557505084116200035c575b505050811b015f55620001b5565b01515f1960f88460031b161c191690555f80806200034e565b8385015186558b979095019493840193016200033b565b9091505f8052835f208580850160051c820192868610620003d5575b918991869594930160051c01915b828110620003c65750506200018c565b5f8155859450899101620003b6565b92508192620003a8565b93607f169362000175565b4662aa36a7036200045957620003ff6200051c565b506200040a620004dc565b73f0ffdc93b7e186bc2f8cb3daa75d86d1930a433d81527392c920834ec8941d2c77d188936e1f7a6f49c1278382015273be0e383937d564d7ff0bc3b46c51f0bf8d5c311a858201526200008b565b46617a6903620004c7576200046d6200051c565b5062000478620004dc565b7350157cffd6bbfa2dece204a89ec419c23ef5755d815273e3a9105a3a932253a70f126eb1e3b589c643dd248382015273be0e383937d564d7ff0bc3b46c51f0bf8d5c311a858201526200008b565b83516373cac13b60e01b8152600490fd5b5f80fd5b60405190606082016001600160401b038111838210176200030857604052565b60408051919082016001600160401b038111838210176200030857604052565b62000526620004dc565b905f82525f60208301525f604083015256fe6080604090808252600480361015610015575f80fd5b5f3560e01c91826301ffc9a7146129cd5750816302f8c2501461293157816306fdde0314612884578163081812fc1461284c578163083ba8741461280a578163095ea7b31461272f5781631aaaca39146126e05781631c4527811461268d57816321050da01461215357816323b872dd1461213c57816324600fc3146120185781632e0f21d714611fde5781633b933c8514611f6657816342842e0e14611f3e5781634f361cb514611f21578163515035ae14611ee257816354dae80014611e1f578163583db9f21461191c57816358c8e56d146118af57816361d027b31461186c5781636352211e1461183d578163636921cf146117dd57816365a3ff81146116dc578163693dfca81461164957816370a08231146115f55781637a2db7e9146114ae5781637c09527e146112a7578163800a18f61461120a578163891df671146111e35781638927b030146111c057816395d89b41146110ec578163a13d4e6b14610d12578163a22cb46514610c51578163aff8020714610c0e578163b60e7a3b14610a61578163b88d4fde14610a12578163bca6d985146109f5578163be378228146109da578163c87b56dd1461048f578163d0ada30b1461041d578163d329db8f14610400578163d8b360e6146103be578163e985e9c514610370578163ed435e581461034f578163edd8184914610254575063f3f437031461021a575f80fd5b34610250576020366003190112610250576020906001600160a01b0361023e612aaa565b165f52600b8252805f20549051908152f35b5f80fd5b9050346102505760203660031901126102505780356001600160401b038111610250576102849036908301612a37565b9083518282823760208184810160068152030190209360018060a01b039182865416946102b2861515612d6d565b6002870154946102ce60038901549160ff848b01541694613c2d565b5493600b600a8a01549901549681519889526020890152870152600582101561033c575091610140959160ff9360608701526080860152811660a085015263ffffffff8160a01c1660c0850152818160c01c16151560e085015260c81c161515610100830152610120820152f35b602190634e487b7160e01b5f525260245ffd5b8234610250575f366003190112610250576020905166038d7ea4c680008152f35b823461025057806003193601126102505760209061038c612aaa565b610394612ac0565b9060018060a01b038091165f5260058452825f2091165f52825260ff815f20541690519015158152f35b8234610250576020906103f76103f26103d636612ad6565b92916103ed6103e58383613c2d565b54851061380f565b613c2d565b612e83565b50549051908152f35b8234610250575f3660031901126102505760209051620151808152f35b8234610250576020366003190112610250578135916001600160401b0383116102505761045261045991606094369101612a37565b3691612bbb565b602081519101209061046a8261396e565b90825f52600d602052805f205491815193845260018060a01b03166020840152820152f35b9050346102505760209182600319360112610250578135916104b08361396e565b50825f52600c90600c85526104c6835f20612ccb565b918351925f945f5b82518110156106a257828101890151899060f881901c6b1000000000000004ffffffff6001821b1615610693576105048a613404565b99605c9384918b010153600881036105345750505060019060628a6105288a613404565b99890101535b016104ce565b600981036105585750505060019060748a61054e8a613404565b998901015361052e565b600a810361057257505050600190606e8a61054e8a613404565b80870361058b5750505060019060668a61054e8a613404565b600d81036105a55750505060019060728a61054e8a613404565b8083036105bc575050906001918a61054e8a613404565b60229250908282036105d8575050906001918a61054e8a613404565b91509760758b6105e783613404565b928a0101538a6105f682613404565b9160309182918b0101538b61060a83613404565b928a01015361061881613404565b9160fc1c9060109081831015610680576f181899199a1a9b1b9c1cb0b131b232b360811b9283901a908a018d0153600f61065184613404565b9a169081101561066d5760019392918c911a918901015361052e565b603288634e487b7160e01b5f525260245ffd5b603289634e487b7160e01b5f525260245ffd5b90506001929161054e8a613404565b5087848689838a80845283010185525f52600d8352835f2054805f937a184f03e93ff9f4daa797ed6e38ed64bf6a1f010000000000000000808410156109cd575b50856d04ee2d6d415b85acef8100000000808410156109bf575b5050662386f26fc10000808310156109b0575b506305f5e100808310156109a1575b5061271080831015610995575b50506064811015610987575b600a8091101561097d575b60018085019281602161076d61075887612ba0565b966107658c519889612b7f565b808852612ba0565b868a019890601f1901368a37860101905b610948575b88886109446108e46108c46108df60d68c8e8d8951958693683d913730b6b2911d1160b91b8b86015280519061085d8c8201926107c48160298a0186612a64565b8701917f222c226465736372697074696f6e223a22446f6d61696e20776f6e20696e206160298401527f207365616c65642d626964204648452061756374696f6e222c0000000000000060498401527f2261747472696275746573223a5b7b2274726169745f74797065223a22446f6d60628401526d30b4b71116113b30b63ab2911d1160911b60828401525180936090840190612a64565b01917f227d2c7b22646973706c61795f74797065223a2264617465222c22747261697460908401527f5f74797065223a22526567697374726174696f6e2044617465222c2276616c7560b08401526232911d60e91b60d084015251809360d3840190612a64565b01627d5d7d60e81b60d38201520360b6810184520182612b7f565b613f81565b92610935603d825180967f646174613a6170706c69636174696f6e2f6a736f6e3b6261736536342c0000008783015261092581518092898686019101612a64565b810103601d810187520185612b7f565b51928284938452830190612a85565b0390f35b5f19019083906f181899199a1a9b1b9c1cb0b131b232b360811b8282061a8353049182156109785791908261077e565b610783565b9260010192610743565b606460029104930192610738565b9401939004868061072c565b6008919592049101938761071f565b60109195920491019387610710565b9501949091049085886106fd565b87955083049150876106e3565b8234610250575f366003190112610250576020905160fa8152f35b8234610250575f366003190112610250576020905162093a808152f35b3461025057608036600319011261025057610a2b612aaa565b610a33612ac0565b906064356001600160401b03811161025057610a5f93610a5591369101612c2f565b9160443591613850565b005b9050346102505760203660031901126102505780356001600160401b03811161025057610a919036908301612a37565b9290918151848482376006858201908152819003602001902080546001600160a01b03169190610ac2831515612d6d565b8181019283549160ff83166005811015610bfb5780610b9d5750503303610b6957610aed8686613c2d565b54610b335790859392915b60ff191617905551928392833781015f81520390207f8491f144dda005dc8140735549d904900585c1cbe24e47da9dcbf67a8b7233d55f80a2005b835162461bcd60e51b8152602081840152601060248201526f41756374696f6e20686173206269647360801b6044820152606490fd5b835162461bcd60e51b8152602081840152600e60248201526d2737ba103a34329039b2b63632b960911b6044820152606490fd5b600392506001610bad9114612df3565b01544210610bbf579085939291610af8565b835162461bcd60e51b815260208184015260166024820152752932bb32b0b6103832b934b7b2103737ba1037bb32b960511b6044820152606490fd5b602185634e487b7160e01b5f525260245ffd5b8234610250576020366003190112610250578135916001600160401b03831161025057610c43610c4991602094369101612a37565b90613c2d565b549051908152f35b8234610250578060031936011261025057610c6a612aaa565b9060243580151592838203610250573315610cfc576001600160a01b0316938415610ce55750610cb990335f526005602052825f20855f52602052825f209060ff801983541691151516179055565b519081527f17307eab39ab6107e8899845ad3d59bd9653f200f220920489ca2b5937696c3160203392a3005b8251630b61174360e31b8152908101859052602490fd5b825163a9fbf51f60e01b81525f81870152602490fd5b90503461025057602091826003193601126102505781356001600160401b03811161025057610d449036908401612a37565b91805183838237600681850190815281900386019020546001600160a01b0390610d719082161515612d6d565b60ff858351868682378881888101600681520301902001541660058110156110d9576002610d9f9114612df3565b8151848482378681868101600681520301902094610dbd8585613c2d565b95610dc886866139a8565b91600a8201918254938585165f528a52855f20545f19998a82019182116110c65790610df391612e83565b5063ffffffff809560a01c169166038d7ea4c68000918284029284840414841517156110b35760018101938385541061107a576703782dace9d900000283810460fa1484151715611067578d610ea28c8e8c610ed5978f60018d610edd9d9c9a612710610eca9b04998286019460ff19956003878254161790555190888a833781898101600a81520301902083858254161790550191825416179055541690610e9c8588612e9c565b92613c98565b7f00000000000000000000000000000000000000000000000000000000000000008d8d613c98565b878654169254612e9c565b908989613c98565b610ee8368888612bbb565b89815191012097885f52600c8a52610f038888885f20613412565b885f52600d8a5242865f205584835416908115611051578a918a91825f526002845287895f20541690811515948561101f575b50505f82815260038e528981208054600101905583815260028e5289812080546001600160a01b031916841790557fddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef9080a46110095750907f64d8daf23c473029a53085102cd750da03c73cc84f64ca68d3f7d0f51bb666c68694939254928316988993855187898237808881015f81520390209386519160a01c168152a351928392833781015f81520390207fe0c248e83e4f44d5e9d4bff872183a4b9b61245851244cdf4ed25c0bd41141f85f80a4005b6024905f8651916339e3563760e11b8352820152fd5b5f85815260046020526040902080546001600160a01b0319169055600390835f5252895f209081540190555f8d610f36565b8651633250574960e11b81525f81850152602490fd5b601186634e487b7160e01b5f525260245ffd5b895162461bcd60e51b81528087018f905260136024820152724465706f7369742062656c6f7720707269636560681b6044820152606490fd5b601185634e487b7160e01b5f525260245ffd5b601184634e487b7160e01b5f525260245ffd5b602186634e487b7160e01b5f525260245ffd5b8234610250575f366003190112610250578051905f90826001926001549361111385612c93565b90818452602095866001821691825f1461119e575050600114611143575b50506109449291610935910385612b7f565b9085925060015f527fb10e2d527612073b26eecdfd717e6a320cf44b4afac2b0732d9fcbe2b7fa0cf6915f925b8284106111865750505082010181610935611131565b8054848a018601528895508794909301928101611170565b60ff19168682015292151560051b850190920192508391506109359050611131565b8234610250575f366003190112610250576020906111dc613d01565b9051908152f35b823461025057602036600319011261025057602091355f52600d8252805f20549051908152f35b823461025057806003193601126102505781356001600160401b0381116102505761123b6112749136908501612a37565b611246929192612ac0565b9261125182826139a8565b9360018060a01b031693845f5260205261126f855f2054151561380f565b6139a8565b905f52602052805f2054905f198201918211611294576020925051908152f35b601183634e487b7160e01b5f525260245ffd5b8234610250576112b636612ad6565b909280519184848437828581016007815260209485910301902054811161147457815185858237838187810160078152030190205481146113c7575b81518585823783818781016009815203019020815f528352815f20335f528352815f20549061132282151561380f565b82518686823784818881016008815203019020905f528352815f205f1982019182116113b4579061135291612e83565b50948086019283549260ff8416611380575050509360019182610a5f9660ff19161790550154913391613c98565b5162461bcd60e51b815291820152601060248201526f105b1c9958591e481c99599d5b99195960821b604482015260649150fd5b601187634e487b7160e01b5f525260245ffd5b8151858582378381878101600681520301902060ff878201541690600582101561146157878214918215611436575b50506112f257815162461bcd60e51b81528087018490526014602482015273526566756e64206e6f7420617661696c61626c6560601b6044820152606490fd5b600314915081611449575b5087806113f6565b600a01546001600160a01b0316331415905087611441565b602188634e487b7160e01b5f525260245ffd5b815162461bcd60e51b81528087018490526014602482015273149bdd5b9908191bd95cc81b9bdd08195e1a5cdd60621b6044820152606490fd5b8234610250576114bd36612ad6565b918351828282376020818481016006815203019020946114e760018060a01b038754161515612d6d565b60ff818701541660058110156115e257611502901515612db2565b600b61150e8484613c2d565b960190815494875491828710156115ab575061152a8683612e9c565b8110156115a45761153c915085613802565b935b84811061158757509183917f31dae899dc10ff10cbc0b1bafd1724f5991df657183476e5d2d1ee8b55a1a25c9460209455818651928392833781015f81520390209351908152a2005b8061159e6115976001938a612e83565b5054613ef0565b0161153e565b509361153e565b606490602089519162461bcd60e51b83528201526011602482015270105b1b08189a591cc81c995d99585b1959607a1b6044820152fd5b602182634e487b7160e01b5f525260245ffd5b8234610250576020366003190112610250576001600160a01b03611617612aaa565b16801561163357602092505f5260038252805f20549051908152f35b81516322718ad960e21b81525f81850152602490fd5b8234610250576020366003190112610250578135906001600160401b0382116102505760ff61167c849336908501612a37565b9390926116a981518686823760068188019081528190036020019020546001600160a01b03161515612d6d565b5184848237602081868101600681520301902001541692600584101561033c57506116d7610a5f9315612df3565b6135a9565b905034610250575f36600319011261025057600e54906001600160401b0382116117ca5750602090825191611716818360051b0184612b7f565b8183528083019182600e5f527fbb7b4a454dc3493923482f07822329ed19e8244eff582cc204f8554c3620c3fd5f915b8383106117a857505050508351928184019082855251809152848401948160051b85010192915f955b82871061177c5785850386f35b909192938280611798600193603f198a82030186528851612a85565b960192019601959291909261176f565b60018581926117b9859a989a612ccb565b815201920192019190959395611746565b604190634e487b7160e01b5f525260245ffd5b8234610250576020366003190112610250578135600e548110156102505761180490612c4a565b92909261182b575061181861094492612ccb565b9051918291602083526020830190612a85565b5f90634e487b7160e01b82525260245ffd5b82346102505760203660031901126102505761185b6020923561396e565b90516001600160a01b039091168152f35b8234610250575f36600319011261025057517f00000000000000000000000000000000000000000000000000000000000000006001600160a01b03168152602090f35b905034610250576060366003190112610250578035906001600160401b038211610250576118df91369101612a37565b9091906044356001600160a01b0381168103610250576060936119059260243591613517565b908392935193151584526020840152151590820152f35b82346102505760a0366003190112610250576001600160401b0382358181116102505761194c9036908501612a37565b92909160249360449182359081116102505761196b9036908801612a37565b9490926064803597608435958515611deb5787519886868b3760ff8a888101600a815260209c8d91030190205416611dab57428b1115611d75578a881115611d405762278d006119bb428d612e9c565b11611d0057620151806119ce8c8a612e9c565b10611cc05762093a806119e18c8a612e9c565b11611c87576119fc916119f5913691612bbb565b82356139e0565b91611a08831515612e37565b8751938686863760068588018181528690038b01909520546001600160a01b0316611b60575050600e54600160401b811015611b4d57806001611a4e9201600e55612c4a565b919091611b3c5750611b1e92611b167f60140b875a937ebf543a6a4e270352e2ee0ce22054a63e61633f4585a72bdf69999a9b93611a908888611b1696613412565b8951888882378c818a81018681520301902094336001600160601b0360a01b875416178655600186019182558d6002870155896003870155850160ff198154169055611b16611add613d30565b9160058701928355611aed613d30565b9487019485556007611afd613d82565b9701968755611b0e81543090613e73565b339054613e73565b309054613e73565b818451928392833781015f81520390209382519586528501523393a3005b634e487b7160e01b5f908152808c52fd5b50634e487b7160e01b5f90815260418b52fd5b909160ff8c8a9b9c9d9798999a518a8a82378d818c81018a8152030190200154166005811015611c74578603611c3d5750505091611b16611b1e92611b1689989796957f60140b875a937ebf543a6a4e270352e2ee0ce22054a63e61633f4585a72bdf699a51888882378c818a81016007815203019020611be18154613404565b90555f600b8d8c51908b8b8337818c8101888152030190208281558260018201558260028201558260038201558288820155826005820155828682015582600782015582600882015582600982015582600a8201550155611a90565b859160167541756374696f6e20616c72656164792065786973747360501b928d8d519562461bcd60e51b8752860152840152820152fd5b50634e487b7160e01b5f90815260218752fd5b885162461bcd60e51b8152808d018b90526016818501527552657665616c20706572696f6420746f6f206c6f6e6760501b818701528490fd5b885162461bcd60e51b8152808d018b90526017818501527f52657665616c20706572696f6420746f6f2073686f7274000000000000000000818701528490fd5b885162461bcd60e51b8152808d018b90526017818501527f42696464696e6720706572696f6420746f6f206c6f6e67000000000000000000818701528490fd5b885162461bcd60e51b8152808d018b905260128185015271125b9d985b1a59081c995d99585b08195b9960721b818701528490fd5b885162461bcd60e51b8152808d018b905260138185015272125b9d985b1a5908189a59191a5b99c8195b99606a1b818701528490fd5b885162461bcd60e51b8152808d018b90526019818501527f446f6d61696e20616c7265616479207265676973746572656400000000000000818701528490fd5b5070456d70747920646f6d61696e206e616d6560781b8360118c9360208b519562461bcd60e51b8752860152840152820152fd5b8234610250576060366003190112610250576001600160401b03823581811161025057611e4f9036908501612a37565b9060243583811161025057611e679036908701612c2f565b926044359081116102505785611e8260ff9236908301612c2f565b95611ead81518686823760068188019081528190036020019020546001600160a01b03161515612d6d565b5184848237602081868101600681520301902001541694600586101561033c5750611edd6001610a5f9614612df3565b61309c565b82346102505760209060ff611f0c83611efa36612bf1565b81855193828580945193849201612a64565b8101600a815203019020541690519015158152f35b8234610250575f366003190112610250576020905162278d008152f35b823461025057610a5f90611f5136612b08565b91925192611f5e84612b64565b5f8452613850565b82346102505760203660031901126102505781356001600160401b038111610250576020611f9a8194600193369101612a37565b9190611fc385518483823784810190600682528481888060a01b03930301902054161515612d6d565b82855193849283378101600681520301902001549051908152f35b82346102505760209061200682611ff436612bf1565b81845193828580945193849201612a64565b81016007815203019020549051908152f35b905034610250575f366003190112610250577f9b779b17422d0df92223018b32b4d1fa46e071723d6817e2486d003becc55f0090600282541461212e5760028255335f52600b602052825f20549081156120f557335f52600b6020525f848120555f80808085335af1612089613053565b50156120c05750600192519081527feaff4b37086828766ad3268786972c0cd24259d4c87a80f9d3963a3c3d999b0d60203392a255005b606490602085519162461bcd60e51b8352820152600f60248201526e151c985b9cd9995c8819985a5b1959608a1b6044820152fd5b606490602085519162461bcd60e51b835282015260136024820152724e6f7468696e6720746f20776974686472617760681b6044820152fd5b8251633ee5aeb560e01b8152fd5b3461025057610a5f61214d36612b08565b91612ebd565b90506060366003190112610250576001600160401b03918135838111610250576121809036908401612a37565b6024949160449283358181116102505761219d9036908801612a37565b865195869392868686376121cd8786016006815260018060a01b0396879160209b8c910301902054161515612d6d565b60ff8a8a51898982378a818b81016006815203019020015416600581101561267b576121f99015612df3565b88518787823788818981016006815203019020926002840154421015612648578584541633146126125761222d88886139a8565b335f528952895f20546125db5734156125a6576122536119f5879594938e933691612bbb565b898b82158e6122628215612e37565b63ffffffff958666038d7ea4c6800034048181111561259f5750965b8693612586575b935f91606494955f805160206140c18339815191529c8d54169251998a978896631d44e90160e21b88528701521690840152600160f81b898401525af191821561257c57928c8c8f93948d958b9a9998975f9261253a575b50925f61234399969361230160079a97946123399a976122fb613d30565b91613af2565b9c8d98600589019c8d9a6123168c5482613b39565b9b8c60068d019e8f9161232a835486613b39565b6122fb85549187865491613af2565b905554908c613af2565b8d5554169051998a958694639cd07acb60e01b865233908601528401525af1938415612530575f946124f9575b506123979461238d611b1694936007611b16940196875491613bec565b8555543090613e73565b6123a18585613c2d565b9287519160a0830190838210908211176124e757885282825286820190348252888301338152606084019142835260808501935f85528754600160401b8110156124d5578060016123f592018a5589612e83565b9690966124c4575186555160018601559051600285018054919092166001600160a01b031990911617905551600383015551908801805460ff191691151560ff1691909117905561246690825461244c86866139a8565b335f528752875f205561245f3082613e73565b3390613e73565b545f198101959086116124b25750907f027aaa4de8a8577ab88766593b19e891945e65f7d03ad3551436d3db7feed2339291818551928392833781015f815203902092519384523393a3005b60118791634e487b7160e01b5f52525ffd5b8e5f8f634e487b7160e01b8252525ffd5b8e60418f634e487b7160e01b5f52525ffd5b8a60418b634e487b7160e01b5f52525ffd5b92919093508a83813d8311612529575b6125138183612b7f565b8101031261025057915192909190612397612370565b503d612509565b8c513d5f823e3d90fd5b9895509699505050509184813d8311612575575b6125588183612b7f565b810103126102505792518695928a928e9290918e918e915f6122dd565b503d61254e565b8b513d5f823e3d90fd5b93606493505f91612595613d30565b9450915093612285565b169661227e565b50885162461bcd60e51b8152808b018990526010818d01526f11195c1bdcda5d081c995c5d5a5c995960821b81840152606490fd5b50885162461bcd60e51b8152808b018990526012818d01527142696420616c72656164792065786973747360701b81840152606490fd5b50885162461bcd60e51b8152808b018990526011818d01527014d95b1b195c8818d85b9b9bdd08189a59607a1b81840152606490fd5b50885162461bcd60e51b8152808b01899052600e818d01526d109a59191a5b99c818db1bdcd95960921b81840152606490fd5b8b60218c634e487b7160e01b5f52525ffd5b82346102505760203660031901126102505781356001600160401b0381116102505760206126c1819460ff93369101612a37565b919082855193849283378101600a815203019020541690519015158152f35b8234610250576080916126f86103f26103d636612ad6565b5060018101549260ff60018060a01b0360028401541693600384015493015416928151948552602085015283015215156060820152f35b8234610250578060031936011261025057612748612aaa565b916024356127558161396e565b331515806127f7575b806127d0575b6127ba576001600160a01b039485169482918691167f8c5be1e5ebec7d5bd14f71427d1e84f3dd0314c0f7b2291e5b200ac8c7c3b9255f80a45f526020525f20906001600160601b0360a01b8254161790555f80f35b835163a9fbf51f60e01b81523381850152602490fd5b5060018060a01b0381165f526005602052835f20335f5260205260ff845f20541615612764565b506001600160a01b03811633141561275e565b8234610250576020366003190112610250578135916001600160401b0383116102505761045261283f91602094369101612a37565b8281519101209051908152f35b823461025057602036600319011261025057816020923561286c8161396e565b505f52825260018060a01b03815f2054169051908152f35b8234610250575f366003190112610250578051905f90825f54926128a784612c93565b808352602094600190866001821691825f1461119e5750506001146128d85750506109449291610935910385612b7f565b5f80805286935091907f290decd9548b62a8d60345a988386fc84ba6bc95484008f6362f93160ef3e5635b8284106129195750505082010181610935611131565b8054848a018601528895508794909301928101612903565b82346102505760203660031901126102505781356001600160401b0381116102505761296260209136908501612a37565b91908284519384928337600690820190815203019020805461298e906001600160a01b03161515612d6d565b60ff838201541692600584101561033c57506129ad6060931515612db2565b600781015491600960088301549201549181519384526020840152820152f35b903461025057602036600319011261025057359063ffffffff60e01b8216809203610250576020916380ac58cd60e01b8114908115612a26575b8115612a15575b5015158152f35b6301ffc9a760e01b14905083612a0e565b635b5e139f60e01b81149150612a07565b9181601f84011215610250578235916001600160401b038311610250576020838186019501011161025057565b5f5b838110612a755750505f910152565b8181015183820152602001612a66565b90602091612a9e81518092818552858086019101612a64565b601f01601f1916010190565b600435906001600160a01b038216820361025057565b602435906001600160a01b038216820361025057565b604060031982011261025057600435906001600160401b03821161025057612b0091600401612a37565b909160243590565b6060906003190112610250576001600160a01b0390600435828116810361025057916024359081168103610250579060443590565b6001600160401b038111612b5057604052565b634e487b7160e01b5f52604160045260245ffd5b602081019081106001600160401b03821117612b5057604052565b90601f801991011681019081106001600160401b03821117612b5057604052565b6001600160401b038111612b5057601f01601f191660200190565b929192612bc782612ba0565b91612bd56040519384612b7f565b829481845281830111610250578281602093845f960137010152565b602060031982011261025057600435906001600160401b038211610250578060238301121561025057816024612c2c93600401359101612bbb565b90565b9080601f8301121561025057816020612c2c93359101612bbb565b600e54811015612c7f57600e5f527fbb7b4a454dc3493923482f07822329ed19e8244eff582cc204f8554c3620c3fd01905f90565b634e487b7160e01b5f52603260045260245ffd5b90600182811c92168015612cc1575b6020831014612cad57565b634e487b7160e01b5f52602260045260245ffd5b91607f1691612ca2565b9060405191825f8254612cdd81612c93565b908184526020946001916001811690815f14612d4b5750600114612d0d575b505050612d0b92500383612b7f565b565b5f90815285812095935091905b818310612d33575050612d0b93508201015f8080612cfc565b85548884018501529485019487945091830191612d1a565b92505050612d0b94925060ff191682840152151560051b8201015f8080612cfc565b15612d7457565b60405162461bcd60e51b8152602060048201526016602482015275105d58dd1a5bdb88191bd95cc81b9bdd08195e1a5cdd60521b6044820152606490fd5b15612db957565b60405162461bcd60e51b815260206004820152601260248201527120bab1ba34b7b71039ba34b6361037b832b760711b6044820152606490fd5b15612dfa57565b60405162461bcd60e51b8152602060048201526015602482015274496e76616c69642061756374696f6e20737461746560581b6044820152606490fd5b15612e3e57565b60405162461bcd60e51b815260206004820152601760248201527f496e76616c696420656e6372797074656420696e7075740000000000000000006044820152606490fd5b8054821015612c7f575f52600560205f20910201905f90565b91908203918211612ea957565b634e487b7160e01b5f52601160045260245ffd5b6001600160a01b03918216929091831561303b57815f52602092600284528260409583875f2054169533151580612fa9575b5060029087612f78575b825f5260038152885f2060018154019055835f5252865f20816001600160601b0360a01b825416179055857fddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef5f80a41692838303612f575750505050565b6064945051926364283d7b60e01b8452600484015260248301526044820152fd5b5f84815260046020526040812080546001600160a01b03191690558881526003825289902080545f19019055612ef9565b9192509080612ffa575b15612fc1579084915f612eef565b868587612fde576024915190637e27328960e01b82526004820152fd5b604491519063177e802f60e01b82523360048301526024820152fd5b50338614801561301f575b80612fb35750845f52600481523384885f20541614612fb3565b50855f5260058152865f20335f52815260ff875f205416613005565b604051633250574960e11b81525f6004820152602490fd5b3d1561307d573d9061306482612ba0565b916130726040519384612b7f565b82523d5f602084013e565b606090565b805115612c7f5760200190565b5190811515820361025057565b9092916040918251918582843782868101600681526020948591030190209560038701544210156133cb578451608081018181106001600160401b03821117612b50578652600381526060368683013760078801546130fa82613082565b526008880154815160011015612c7f57868201526009880154815160021015612c7f5760608201526131a0858460018060a01b03998a7f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497025416905f8b518096819582946378542ead60e01b84526060600485015261319161317e606486018d613c65565b6003199384878303016024880152612a85565b91848303016044850152612a85565b03925af19081156133c1575f9161338c575b501561337b576131f17fc6366bab028b8d033cb362cfd1f2f3457ef4e92fc738b6788b90d5a7846367a0916131fe88519283928a84528a840190613c65565b8281038984015286612a85565b0390a1606082805181010312610250578382015195861680960361025057848201519263ffffffff92838516850361025057606061323c910161308f565b600a8901805461ffff60c01b19169115801560c881901b60ff60c81b1693909317600160c01b17808355919691928190613373575b6132e6575098600491897faddbcae0b0dc38cba8cc035ac5b083c62af43de6e90c2b6597b7e0e80278cf0d999a9b63ffffffff60a01b9060a01b16916001600160401b0360c01b16171780965501600260ff19825416179055818751928392833781015f815203902094519160a01c168152a3565b95505050955095869493506004915001600460ff1982541617905561333a575b51928392833781015f81520390207f8491f144dda005dc8140735549d904900585c1cbe24e47da9dcbf67a8b7233d55f80a2565b805182848237808381015f81520390207f453eab03b4fc1333296ece587cfc9fcad6d9347c91f93feca38f710ddc3b42ca5f80a2613306565b508915613271565b855163cf6c44e960e01b8152600490fd5b90508581813d83116133ba575b6133a38183612b7f565b81010312610250576133b49061308f565b5f6131b2565b503d613399565b87513d5f823e3d90fd5b845162461bcd60e51b81526004810185905260126024820152712932bb32b0b6103832b934b7b21037bb32b960711b6044820152606490fd5b5f198114612ea95760010190565b9092916001600160401b038111612b505761342d8254612c93565b601f81116134d2575b505f601f821160011461346e57819293945f92613463575b50508160011b915f199060031b1c1916179055565b013590505f8061344e565b601f19821694835f5260209160205f20925f905b8882106134ba575050836001959697106134a1575b505050811b019055565b01355f19600384901b60f8161c191690555f8080613497565b80600184968294958701358155019501920190613482565b825f5260205f20601f830160051c8101916020841061350d575b601f0160051c01905b8181106135025750613436565b5f81556001016134f5565b90915081906134ec565b92604051828582376020818481016009815203019020835f5260205260405f209060018060a01b03165f5260205260405f205492831561359d5760209082604051938492833781016008815203019020905f5260205260405f20905f198101908111612ea95761358691612e83565b509060ff6004600184015493015416906001929190565b505050505f905f905f90565b9060409182519082818337818381016006815260209384910301902092600284015442106137c9576135db8183613c2d565b8054156137805760048501600160ff19825416179055600585015494600181018054871561376d575b8087911561375f575b606460018060a01b035f805160206140c18339815191525416995f8c519b8c948593631391547f60e01b8552600485015260248401528160448401525af1968715613755575f97613724575b5095613704826137046136a67f87c1776a9a910068e0249c4a63d76fbc9e30fda57a63eecbb59d65f327b2b46c9a600661370a97019061369c8254825490613b39565b9154905491613af2565b936136e060076136c660098601978489556136bf613d30565b9085613af2565b9460088101958655019182546136da613d82565b91613bec565b81556136ee85543090613e73565b6136f9308454613e73565b613704308254613e73565b54613ef0565b5491818651928392833781015f81520390209351908152a2565b96508587813d831161374e575b61373b8183612b7f565b8101031261025057955195613704613659565b503d613731565b88513d5f823e3d90fd5b50613768613d30565b61360d565b965085613778613d30565b979050613604565b50939092849250600401600460ff1982541617905551928392833781015f81520390207f8491f144dda005dc8140735549d904900585c1cbe24e47da9dcbf67a8b7233d55f80a2565b845162461bcd60e51b81526004810184905260126024820152712134b23234b7339039ba34b6361037b832b760711b6044820152606490fd5b91908201809211612ea957565b1561381657565b60405162461bcd60e51b8152602060048201526012602482015271109a5908191bd95cc81b9bdd08195e1a5cdd60721b6044820152606490fd5b9192909261385f818585612ebd565b833b61386c575b50505050565b60209060018060a01b03809516946138b36040519485938493630a85bd0160e11b988986523360048701521660248501526044840152608060648401526084830190612a85565b03815f875af15f9181613929575b506138f857826138cf613053565b80519190826138f157604051633250574960e11b815260048101839052602490fd5b6020915001fd5b6001600160e01b0319160361391157505f808080613866565b60249060405190633250574960e11b82526004820152fd5b9091506020813d602011613966575b8161394560209383612b7f565b8101031261025057516001600160e01b03198116810361025057905f6138c1565b3d9150613938565b5f818152600260205260409020546001600160a01b0316908115613990575090565b60249060405190637e27328960e01b82526004820152fd5b90602060405182848237818184810160098152030190209282604051938492833781016007815203019020545f5260205260405f2090565b6020613a309260018060a01b0392835f805160206140c18339815191525416905f60405180978195829463045fc19560e11b84526004840152336024840152608060448401526084830190612a85565b6004606483015203925af1918215613ab3575f92613abe575b507f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497005416803b1561025057604051630f8e573b60e21b815260048101839052336024820152905f908290604490829084905af18015613ab357613aaa575090565b612c2c90612b3d565b6040513d5f823e3d90fd5b9091506020813d602011613aea575b81613ada60209383612b7f565b810103126102505751905f613a49565b3d9150613acd565b90612c2c92918015613b2b575b8115613b1b575b82613e21579150613b15613d30565b91613e21565b9050613b25613d30565b90613b06565b50613b34613dd5565b613aff565b908115613bdc575b8015613bca575b602090606460018060a01b035f805160206140c18339815191525416935f60405195869485936385362ee760e01b8552600485015260248401528160448401525af1908115613ab3575f91613b9b575090565b90506020813d602011613bc2575b81613bb660209383612b7f565b81010312610250575190565b3d9150613ba9565b506020613bd5613d30565b9050613b48565b9050613be6613d30565b90613b41565b90612c2c92918015613c1f575b8115613c0f575b82613e21579150613b15613d82565b9050613c19613d82565b90613c00565b50613c28613dd5565b613bf9565b90602060405182848237818184810160088152030190209282604051938492833781016007815203019020545f5260205260405f2090565b9081518082526020808093019301915f5b828110613c84575050505090565b835185529381019392810192600101613c76565b92918215613866577fcadec4c4675e84e8be52848627bff6d59ea0bba7e63bc52e711aa5e55430b52b9160209160018060a01b031694855f52600b835260405f20613ce4868254613802565b905581604051928392833781015f815203902092604051908152a3565b46600103613d0e57600190565b4662aa36a703613d1e5761271190565b617a694614613d2b575f90565b5f1990565b5f805160206140c183398151915254604051639cd07acb60e01b81525f600480830182905260248301529091602091839160449183916001600160a01b03165af1908115613ab3575f91613b9b575090565b5f805160206140c183398151915254604051639cd07acb60e01b81525f60048201819052600760248301529091602091839160449183916001600160a01b03165af1908115613ab3575f91613b9b575090565b5f602060018060a01b035f805160206140c18339815191525416604460405180948193639cd07acb60e01b83528160048401528160248401525af1908115613ab3575f91613b9b575090565b9060646020925f60018060a01b035f805160206140c183398151915254166040519687958694637702dcff60e01b86526004860152602485015260448401525af1908115613ab3575f91613b9b575090565b7f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649700546001600160a01b031691823b1561025057604051635ca4b5b160e11b815260048101929092526001600160a01b03166024820152905f908290818381604481015b03925af18015613ab357613ee75750565b612d0b90612b3d565b60405190604082018281106001600160401b03821117612b50576040526001825260203681840137613f2182613082565b527f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649700546001600160a01b0316803b1561025057604051637d6e912360e11b815260206004820152915f918391829084908290613ed6906024830190613c65565b8051156140ad578051916002808401809411612ea957600393849004600281901b91906001600160fe1b03811603612ea95793604051937f4142434445464748494a4b4c4d4e4f505152535455565758595a616263646566601f52603f917f6768696a6b6c6d6e6f707172737475767778797a303132333435363738392b2f603f5260208601928291835184019160208301998a51945f8c525b8481106140715750505050509060039160209596975251068060011461405c5760021461404f575b50808452830101604052565b603d905f1901535f614043565b50603d90815f1982015360011901535f614043565b836004919c95989c019b838d51818160121c165183538181600c1c16516001840153818160061c1651858401531651858201530196939a61401b565b506040516140ba81612b64565b5f81529056fe9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649701a164736f6c6343000818000a";
+
+type DomainBidAdapterConstructorParams =
+  | [signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: DomainBidAdapterConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
+
+export class DomainBidAdapter__factory extends ContractFactory {
+  constructor(...args: DomainBidAdapterConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      super(_abi, _bytecode, args[0]);
+    }
+  }
+
+  override getDeployTransaction(
+    overrides?: NonPayableOverrides & { from?: string }
+  ): Promise<ContractDeployTransaction> {
+    return super.getDeployTransaction(overrides || {});
+  }
+  override deploy(overrides?: NonPayableOverrides & { from?: string }) {
+    return super.deploy(overrides || {}) as Promise<
+      DomainBidAdapter & {
+        deploymentTransaction(): ContractTransactionResponse;
+      }
+    >;
+  }
+  override connect(runner: ContractRunner | null): DomainBidAdapter__factory {
+    return super.connect(runner) as DomainBidAdapter__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): DomainBidAdapterInterface {
+    return new Interface(_abi) as DomainBidAdapterInterface;
+  }
+  static connect(
+    address: string,
+    runner?: ContractRunner | null
+  ): DomainBidAdapter {
+    return new Contract(address, _abi, runner) as unknown as DomainBidAdapter;
+  }
+}
@@ -1,6 +1,4 @@
 /* Autogenerated file. Do not edit manually. */
 /* tslint:disable */
 /* eslint-disable */
-export { UniversalFHEAdapter__factory } from "./UniversalFHEAdapter__factory";
-
-
+export * as domainBidZSol from "./DomainBid_Z.sol";
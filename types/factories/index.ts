@@ -2,6 +2,5 @@
 /* tslint:disable */
 /* eslint-disable */
 export * as fhevm from "./@fhevm";
+export * as openzeppelin from "./@openzeppelin";
 export * as contracts from "./contracts";
-
-